@@ -1,55 +1,239 @@
 
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { Turn } from './types';
-import { createPcmBlob, decode, decodeAudioData } from './utils/audio';
+import { LiveServerMessage } from '@google/genai';
+import { AudioSource, CandidateProfile, InterviewSession, JobContext, PrepItem, PrepPack, QuestionType, RefinementKind, RehearsalAttempt, ResumeSections, SessionMode, Turn } from './types';
+import { decode, decodeAudioData } from './utils/audio';
+import { AudioCapture, CAPTURE_SAMPLE_RATE, DEFAULT_CAPTURE_CHUNK_SIZE, startAudioCapture } from './utils/audioCapture';
+import { ListenSettings, MIN_LEVEL_DB, createVoiceActivityDetector, loadListenSettings, saveListenSettings, toDecibels } from './utils/vad';
+import { chunkResume, getResumeVersion } from './utils/resume';
+import { RESUME_FILE_ACCEPT, extractResumeText, formatResumeSections, parseResumeSections } from './utils/resumeParser';
+import { createSession, deleteSession, generateSessionId, getRecording, getSession, listSessions, saveRecording, saveSession } from './utils/sessionStore';
+import { computeTurnMetrics, createTurnTimer } from './utils/analytics';
+import { TEXT_ANSWER_MODEL, validateModelSettings } from './utils/modelSettings';
+import { SessionRecorder, createRecordingPlayer, isSessionRecordingSupported, startSessionRecorder } from './utils/sessionRecorder';
+import { ExportFormat, downloadFile, exportSession, getExportFilename, parseSessionImport } from './utils/sessionExport';
+import { LiveSession } from './services/liveProvider';
+import { createAnswerProvider, createLiveProvider } from './services/providers';
+import { ConnectionStatus, connectWithReconnect } from './services/reconnectingSession';
+import { createTurnStore, useTurnState } from './state/turnMachine';
+import { createLevelStore } from './state/levelStore';
+import { appendTranscript, attachCandidateReply } from './utils/transcript';
+import { parseResumeUsage, resolveCitations, stripResumeUsage } from './utils/citations';
+import { REFINEMENT_LABELS, addRefinedVersion, buildRefinementRequest, chooseVersion } from './utils/refinement';
+import { buildAnswerRequest, buildSystemInstruction, buildTurnInstruction } from './utils/prompt';
+import { QUESTION_TYPES, QUESTION_TYPE_LABELS } from './utils/promptTemplates';
+import { createRedactor } from './utils/redaction';
+import { buildPrepQuestionsRequest, createPrepItem, isPrepPackStale, matchPrepItem, parsePredictedQuestions } from './utils/prepPack';
+import { classifyQuestion } from './utils/questionClassifier';
+import { chunkJobDescription, isJobChunkId } from './utils/jobContext';
+import { createProfile, loadActiveProfileId, loadProfiles, saveActiveProfileId, saveProfiles, sessionBelongsToProfile } from './utils/profileStore';
+import { exportProfileJson, getProfileExportFilename, parseProfileImport } from './utils/profileExport';
+import { collectRehearsalHistory, scoreRehearsal } from './utils/rehearsal';
+import { SpeechRecorder, isSpeechRecognitionSupported, startSpeechRecorder } from './utils/speechRecorder';
+import { AudioDeviceSettings, applyOutputDevice, loadAudioDevices, openMicrophone, saveAudioDevices } from './utils/audioDevices';
+import { MOCK_END_PROMPT, MOCK_RESUME_PROMPT, MOCK_START_PROMPT, advanceMockInterview, buildMockInterviewInstruction } from './utils/mockInterview';
+import SessionBrowser from './components/SessionBrowser';
+import ResumeReviewDialog from './components/ResumeReviewDialog';
+import ChunkedTextView from './components/ChunkedTextView';
+import CitationList from './components/CitationList';
+import JobContextPanel from './components/JobContextPanel';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import RehearsalScoreCard from './components/RehearsalScoreCard';
+import RehearsalProgressChart from './components/RehearsalProgressChart';
+import PromptTemplateEditor from './components/PromptTemplateEditor';
+import ListenSettingsPanel from './components/ListenSettingsPanel';
+import TranscriptView from './components/TranscriptView';
+import AudioDevicesPanel from './components/AudioDevicesPanel';
+import SessionReportDialog from './components/SessionReportDialog';
+import ModelSettingsPanel from './components/ModelSettingsPanel';
+import AnswerVersions from './components/AnswerVersions';
+import MarkdownView from './components/MarkdownView';
+import ImportWarnings from './components/ImportWarnings';
+import PrivacyPanel from './components/PrivacyPanel';
+import RedactionPreviewDialog from './components/RedactionPreviewDialog';
+import PrepPackPanel, { PrepProgress } from './components/PrepPackPanel';
 
-const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-12-2025';
-
-type AudioSource = 'microphone' | 'system';
+const liveProvider = createLiveProvider();
+const answerProvider = createAnswerProvider();
 
 const App: React.FC = () => {
   const [isActive, setIsActive] = useState(false);
-  const [isListening, setIsListening] = useState(false);
   const [history, setHistory] = useState<Turn[]>([]);
-  const [currentInterviewerText, setCurrentInterviewerText] = useState('');
-  const [currentAiText, setCurrentAiText] = useState('');
   const [activeSegments, setActiveSegments] = useState<string[]>([]);
+  const [focusedChunk, setFocusedChunk] = useState<{ id: string; nonce: number } | null>(null);
   const [selectedTurnId, setSelectedTurnId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [resume, setResume] = useState<string>(localStorage.getItem('interview_resume') || '');
-  const [isGenerating, setIsGenerating] = useState(false);
+  const [profiles, setProfiles] = useState<CandidateProfile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string>(() => loadActiveProfileId(profiles));
+  const [contextTab, setContextTab] = useState<'resume' | 'job' | 'notes' | 'prep' | 'prompts' | 'model' | 'privacy'>('resume');
+  const [historyFilter, setHistoryFilter] = useState<QuestionType | 'all'>('all');
   const [audioSource, setAudioSource] = useState<AudioSource>('microphone');
+  const [mode, setMode] = useState<SessionMode>('copilot');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [isDebriefRequested, setIsDebriefRequested] = useState(false);
+  const [rehearsal, setRehearsal] = useState<{ turnId: string; transcript: string } | null>(null);
   const [isVoiceEnabled, setIsVoiceEnabled] = useState(false);
+  const [isRecordingEnabled, setIsRecordingEnabled] = useState(false);
+  const [playingTurnId, setPlayingTurnId] = useState<string | null>(null);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isRedactionPreviewOpen, setIsRedactionPreviewOpen] = useState(false);
+  const [importWarnings, setImportWarnings] = useState<{ title: string; warnings: string[] } | null>(null);
+  const [typedQuestion, setTypedQuestion] = useState('');
+  // The answer rewrite being streamed, if any. One runs at a time.
+  const [refining, setRefining] = useState<{ turnId: string; kind: RefinementKind; text: string } | null>(null);
+  const [prepProgress, setPrepProgress] = useState<PrepProgress | null>(null);
+  const [turnTimer] = useState(() => createTurnTimer());
+  const [recordingPlayer] = useState(() => createRecordingPlayer(getRecording));
+  const [sessions, setSessions] = useState<InterviewSession[]>([]);
+  const [currentSession, setCurrentSession] = useState<InterviewSession | null>(null);
+  const [resumeDraft, setResumeDraft] = useState<{ fileName: string; sections: ResumeSections } | null>(null);
+  const [isParsingResume, setIsParsingResume] = useState(false);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('closed');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [listenSettings, setListenSettings] = useState<ListenSettings>(loadListenSettings);
+  const [audioDevices, setAudioDevices] = useState<AudioDeviceSettings>(loadAudioDevices);
+  const [turnStore] = useState(createTurnStore);
+  const [levelStore] = useState(createLevelStore);
+  const [candidateLevelStore] = useState(createLevelStore);
+  const turnState = useTurnState(turnStore);
+  const { isListening, interviewerText: currentInterviewerText, aiText: currentAiText } = turnState;
+  const isGenerating = turnState.phase === 'generating';
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? profiles[0];
+  const { resume, jobContext, preferences, modelSettings, redaction, prepPack } = activeProfile;
 
   // Refs for audio processing
-  const audioContextRef = useRef<AudioContext | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
   const nextStartTimeRef = useRef(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const sessionRef = useRef<any>(null);
+  const sessionRef = useRef<LiveSession | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const transcriptEndRef = useRef<HTMLDivElement>(null);
-  const isListeningRef = useRef(false);
+  const historyRef = useRef<Turn[]>([]);
+  // Mock interview progress, read from live-session callbacks.
+  const pendingQuestionRef = useRef<string | null>(null);
+  const debriefRequestedRef = useRef(false);
+  const recorderRef = useRef<SpeechRecorder | null>(null);
+  // Dual capture: the candidate's mic is metered and transcribed by the browser's
+  // speech recognizer, never sent to the live model.
+  const micStreamRef = useRef<MediaStream | null>(null);
+  const micCaptureRef = useRef<AudioCapture | null>(null);
+  const candidateRecognizerRef = useRef<SpeechRecorder | null>(null);
+  const sessionRecorderRef = useRef<SessionRecorder | null>(null);
+  const recordingSessionIdRef = useRef<string | null>(null);
+  // The in-flight request/response answer, if any.
+  const offlineAnswerRef = useRef<AbortController | null>(null);
+  const refinementRef = useRef<AbortController | null>(null);
+  const prepPackRef = useRef<AbortController | null>(null);
+  // Recording offsets for the open turn: first and last audio sent to the
+  // model, and when its answer began.
+  const questionStartMsRef = useRef<number | null>(null);
+  const lastSentMsRef = useRef(0);
+  const answerStartMsRef = useRef<number | null>(null);
+  // Read per captured chunk, so threshold changes apply mid-session.
+  const listenSettingsRef = useRef(listenSettings);
 
-  // Synchronize ref with state for the audio processor closure
+  // Reconnect attempts rebuild the prompt from the latest turns, outside any render.
   useEffect(() => {
-    isListeningRef.current = isListening;
-  }, [isListening]);
+    historyRef.current = history;
+  }, [history]);
 
   // Persistence
   useEffect(() => {
-    localStorage.setItem('interview_resume', resume);
-  }, [resume]);
+    saveProfiles(profiles);
+  }, [profiles]);
+
+  useEffect(() => {
+    saveActiveProfileId(activeProfileId);
+  }, [activeProfileId]);
+
+  useEffect(() => {
+    listenSettingsRef.current = listenSettings;
+    saveListenSettings(listenSettings);
+  }, [listenSettings]);
+
+  useEffect(() => {
+    saveAudioDevices(audioDevices);
+  }, [audioDevices]);
+
+  const updateActiveProfile = useCallback((patch: Partial<Pick<CandidateProfile, 'resume' | 'jobContext' | 'preferences' | 'modelSettings' | 'redaction' | 'prepPack'>>) => {
+    setProfiles(prev => prev.map(p => (p.id === activeProfileId ? { ...p, ...patch, updatedAt: Date.now() } : p)));
+  }, [activeProfileId]);
+
+  // For pack generation, which outlives renders and may outlive a profile switch.
+  const updatePrepPack = useCallback((profileId: string, update: (pack: PrepPack) => PrepPack) => {
+    setProfiles(prev => prev.map(p => (p.id === profileId ? { ...p, prepPack: update(p.prepPack), updatedAt: Date.now() } : p)));
+  }, []);
+
+  const setResume = (value: string) => updateActiveProfile({ resume: value });
+  const setJobContext = (value: JobContext) => updateActiveProfile({ jobContext: value });
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(e => console.error("Failed to load sessions", e));
+  }, []);
+
+  // Write the current session through to IndexedDB whenever a turn lands, so a
+  // reload or crash mid-interview keeps everything answered so far.
+  useEffect(() => {
+    if (!currentSession) return;
+    const record = { ...currentSession, turns: history };
+    setSessions(prev => [record, ...prev.filter(s => s.id !== record.id)].sort((a, b) => b.startedAt - a.startedAt));
+    saveSession(record).catch(e => console.error("Failed to save session", e));
+  }, [currentSession, history]);
+
+  const endCurrentSession = useCallback(() => {
+    setCurrentSession(prev => (prev && prev.endedAt === null ? { ...prev, endedAt: Date.now() } : prev));
+  }, []);
 
   // Auto-scroll logic
   useEffect(() => {
     transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [currentInterviewerText, currentAiText, history]);
 
+  const stopCandidateChannel = useCallback(() => {
+    candidateRecognizerRef.current?.cancel();
+    candidateRecognizerRef.current = null;
+    micCaptureRef.current?.stop();
+    micCaptureRef.current = null;
+    micStreamRef.current?.getTracks().forEach(track => track.stop());
+    micStreamRef.current = null;
+    candidateLevelStore.setLevel(MIN_LEVEL_DB);
+  }, [candidateLevelStore]);
+
+  // Saves the recording and links it to the session it was made for, which may
+  // no longer be the one on screen by the time the audio is finalized.
+  const finishRecording = useCallback(() => {
+    const recorder = sessionRecorderRef.current;
+    const sessionId = recordingSessionIdRef.current;
+    sessionRecorderRef.current = null;
+    if (!recorder) return;
+    if (!sessionId) {
+      recorder.cancel();
+      return;
+    }
+    recorder.stop()
+      .then(async result => {
+        if (!result) return;
+        await saveRecording(sessionId, result.audio);
+        const { recording } = result;
+        const stored = await getSession(sessionId);
+        if (stored) await saveSession({ ...stored, recording });
+        setSessions(prev => prev.map(s => (s.id === sessionId ? { ...s, recording } : s)));
+        setCurrentSession(prev => (prev?.id === sessionId ? { ...prev, recording } : prev));
+      })
+      .catch(e => {
+        console.error("Failed to save recording", e);
+        setError('The session audio could not be saved.');
+      });
+  }, []);
+
   const stopSession = useCallback(() => {
     setIsActive(false);
-    setIsListening(false);
+    turnStore.dispatch({ type: 'STOP_LISTENING' });
+    endCurrentSession();
     window.speechSynthesis.cancel();
     if (sessionRef.current) {
       sessionRef.current.close();
@@ -59,53 +243,67 @@ const App: React.FC = () => {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
-    if (audioContextRef.current) {
-      audioContextRef.current.close();
-      audioContextRef.current = null;
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
     }
     sourcesRef.current.forEach(source => {
       try { source.stop(); } catch (e) {}
     });
     sourcesRef.current.clear();
     nextStartTimeRef.current = 0;
-  }, []);
+    levelStore.setLevel(MIN_LEVEL_DB);
+    stopCandidateChannel();
+    finishRecording();
+  }, [endCurrentSession, turnStore, levelStore, stopCandidateChannel, finishRecording]);
 
-  const getSystemInstruction = () => {
-    let base = `
-You are an expert real-time technical interview co-pilot. 
-You will receive live transcriptions of an interviewer's questions.
-Your goal is to provide immediate, high-impact suggested answers for the candidate to use.
-
-RULES:
-- For behavioral questions: Use a concise bulleted STAR method (Situation, Task, Action, Result) summary.
-- For technical questions: Provide clear concepts, pseudo-code, or exact code snippets.
-- Use simple, direct, conversational language that is easy to read out loud.
-- STRICTLY NO FILLER. Do not say "Here is a response" or "I can help with that."
-- PERSONALIZATION: Incorporate specific projects, skills, and experiences from the provided resume context.
-
-CITATIONS:
-At the very end of your response, after a double newline, provide the exact snippets from the 'CANDIDATE RESUME CONTEXT' that you actually used to generate your answer. 
-Format it exactly like this:
-RESUME_USAGE: ["snippet 1", "snippet 2"]
-`;
-    if (resume.trim()) {
-      base += `\n\nCANDIDATE RESUME CONTEXT:\n${resume}\n`;
-    }
-    return base;
+  const setMockPending = (question: string | null) => {
+    pendingQuestionRef.current = question;
+    setPendingQuestion(question);
+  };
+
+  const setDebriefRequested = (requested: boolean) => {
+    debriefRequestedRef.current = requested;
+    setIsDebriefRequested(requested);
+  };
+
+  const handleCandidateSpeech = (segment: string) => {
+    const now = Date.now();
+    setCurrentSession(prev => (prev ? { ...prev, transcript: appendTranscript(prev.transcript || [], 'candidate', segment, now) } : prev));
+    setHistory(prev => attachCandidateReply(prev, segment));
   };
 
   const startSession = async () => {
+    // Mock interviews answer out loud, so they always capture the microphone.
+    const sessionMode = mode;
+    const captureSource: AudioSource = sessionMode === 'mock' ? 'microphone' : audioSource;
+    const settingsErrors = validateModelSettings(modelSettings);
+    if (settingsErrors.length > 0) {
+      setError(`Fix the model settings before connecting: ${settingsErrors.join(' ')}`);
+      setContextTab('model');
+      return;
+    }
+    // Taken once per connect, so edits mid-session apply to the next one.
+    const settings = modelSettings;
+    const isTextMode = settings.responseModality === 'text';
+    const playModelAudio = !isTextMode && (isVoiceEnabled || sessionMode === 'mock');
+    cancelRehearsal();
+    stopTurnAudio();
+    cancelAnswerRequests();
+    setIsReportOpen(false);
     try {
       setError(null);
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
 
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      audioContextRef.current = inputCtx;
+      // At the browser's own rate, not the model's 24 kHz: the session recorder
+      // mixes the captured stream in on this context, and Firefox can't
+      // connect a stream to a context running at another rate. Model audio
+      // buffers keep their 24 kHz and are resampled on playback.
+      const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
       outputAudioContextRef.current = outputCtx;
+      await applyOutputDevice(outputCtx, audioDevices.outputId);
 
       let stream: MediaStream;
-      if (audioSource === 'system') {
+      if (captureSource === 'system' || captureSource === 'dual') {
         try {
           stream = await navigator.mediaDevices.getDisplayMedia({
             video: { displaySurface: 'browser' },
@@ -124,97 +322,225 @@ RESUME_USAGE: ["snippet 1", "snippet 2"]
           throw new Error(e.message || 'Capture failed.');
         }
       } else {
-        stream = await navigator.mediaDevices.getUserMedia({ 
-          audio: {
-            echoCancellation: true,
-            noiseSuppression: true,
-            autoGainControl: true
-          } 
-        });
+        stream = await openMicrophone(audioDevices.inputId, settings);
       }
       
       streamRef.current = stream;
 
-      const sessionPromise = ai.live.connect({
-        model: MODEL_NAME,
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: getSystemInstruction(),
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } } },
+      if (captureSource === 'dual') {
+        micStreamRef.current = await openMicrophone(audioDevices.inputId, settings);
+        micCaptureRef.current = await startAudioCapture(
+          micStreamRef.current,
+          (_chunk, rms) => candidateLevelStore.setLevel(toDecibels(rms)),
+        );
+      }
+
+      if (isRecordingEnabled && isSessionRecordingSupported()) {
+        try {
+          sessionRecorderRef.current = startSessionRecorder(outputCtx, stream);
+        } catch (e) {
+          console.error("Session recording unavailable", e);
+          setError('Session audio could not be recorded in this browser; continuing without it.');
+        }
+      }
+      recordingSessionIdRef.current = null;
+      questionStartMsRef.current = null;
+      answerStartMsRef.current = null;
+      turnTimer.reset();
+      // Citations are checked against the context the prompt was built from.
+      const promptChunks = [...chunkResume(resume), ...chunkJobDescription(jobContext)];
+
+      // Personal details are masked in what leaves the browser; the session
+      // keeps the resume as written.
+      const redact = createRedactor(redaction, resume);
+      // The model answers on its own when the interviewer stops talking. Once
+      // the question is transcribed, and before any answer arrives, its type
+      // template is sent as an instruction for that answer; once per question.
+      let turnInstructionSent = false;
+      const sendTurnInstruction = () => {
+        const turn = turnStore.getState();
+        const question = turn.interviewerText.trim();
+        if (sessionMode !== 'copilot' || turnInstructionSent || !question || turn.phase === 'generating') return;
+        turnInstructionSent = true;
+        const instruction = buildTurnInstruction(classifyQuestion(question), preferences.templates);
+        if (instruction) sessionRef.current?.sendText(redact(instruction));
+      };
+      const vad = createVoiceActivityDetector();
+      const chunkMs = (DEFAULT_CAPTURE_CHUNK_SIZE / CAPTURE_SAMPLE_RATE) * 1000;
+      // Tracks where the audio the model hears sits in the recording.
+      const markSent = (chunkCount: number) => {
+        const recorder = sessionRecorderRef.current;
+        if (!recorder || chunkCount === 0) return;
+        const now = recorder.elapsedMs();
+        if (questionStartMsRef.current === null) {
+          questionStartMsRef.current = Math.max(0, Math.round(now - chunkCount * chunkMs));
+        }
+        lastSentMsRef.current = Math.round(now);
+      };
+      const markAnswerStart = () => {
+        const recorder = sessionRecorderRef.current;
+        if (recorder && answerStartMsRef.current === null) {
+          answerStartMsRef.current = Math.round(recorder.elapsedMs());
+        }
+      };
+      captureRef.current = await startAudioCapture(
+        stream,
+        (pcmBlob, rms) => {
+          const levelDb = toDecibels(rms);
+          levelStore.setLevel(levelDb);
+          const settings = listenSettingsRef.current;
+          if (sessionMode === 'copilot' && settings.mode === 'auto') {
+            // Hands-free: the detector opens and closes the gate. Speech
+            // while an answer is streaming is ignored rather than treated
+            // as the next question.
+            const { event, send } = vad.push(pcmBlob, levelDb, chunkMs, settings);
+            const turn = turnStore.getState();
+            if (event === 'speech_start' && turn.phase !== 'generating') {
+              turnStore.dispatch({ type: 'START_LISTENING' });
+            }
+            if (sessionRef.current && turnStore.getState().isListening) {
+              send.forEach(media => sessionRef.current!.sendRealtimeInput({ media }));
+              markSent(send.length);
+              if (send.length > 0) turnTimer.sent(levelDb >= settings.thresholdDb);
+            }
+            if (event === 'speech_end' && turnStore.getState().isListening) {
+              turnStore.dispatch({ type: 'STOP_LISTENING' });
+              sendTurnInstruction();
+            }
+            return;
+          }
+          if (sessionRef.current && turnStore.getState().isListening) {
+            sessionRef.current.sendRealtimeInput({ media: pcmBlob });
+            markSent(1);
+            turnTimer.sent(levelDb >= settings.thresholdDb);
+          }
         },
-        callbacks: {
+        { chunkSize: DEFAULT_CAPTURE_CHUNK_SIZE },
+      );
+
+      const sessionPromise = connectWithReconnect(
+        liveProvider,
+        (isReconnect) => ({
+          model: settings.model,
+          systemInstruction: redact(sessionMode === 'mock'
+            ? buildMockInterviewInstruction({
+                resume,
+                jobContext,
+                questionBank: preferences.questionBank,
+                priorTurns: isReconnect ? historyRef.current : [],
+              })
+            : buildSystemInstruction({
+                resume,
+                jobContext,
+                preferences,
+                priorTurns: isReconnect ? historyRef.current : [],
+                answerLength: settings.answerLength,
+              })),
+          voiceName: settings.voiceName,
+          responseModality: settings.responseModality,
+          temperature: settings.temperature,
+        }),
+        {
           onopen: () => {
             setIsActive(true);
-            const source = inputCtx.createMediaStreamSource(stream);
-            const scriptProcessor = inputCtx.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (e) => {
-              if (sessionRef.current && isListeningRef.current) {
-                const inputData = e.inputBuffer.getChannelData(0);
-                const pcmBlob = createPcmBlob(inputData);
-                sessionRef.current.sendRealtimeInput({ media: pcmBlob });
-              }
-            };
-            
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputCtx.destination);
+            turnStore.dispatch({ type: 'RESET' });
+            setHistory([]);
+            setSelectedTurnId(null);
+            setActiveSegments([]);
+            setMockPending(null);
+            setDebriefRequested(false);
+            setHistoryFilter('all');
+            if (sessionMode === 'mock') {
+              turnStore.dispatch({ type: 'START_LISTENING' });
+            }
+            const session = createSession({
+              profileId: activeProfile.id,
+              mode: sessionMode,
+              startedAt: Date.now(),
+              audioSource: captureSource,
+              resumeVersion: getResumeVersion(resume),
+              resumeText: resume,
+              jobContext,
+              modelConfig: {
+                model: settings.model,
+                voiceName: settings.voiceName,
+                responseModality: settings.responseModality,
+                temperature: settings.temperature,
+              },
+            });
+            recordingSessionIdRef.current = session.id;
+            setCurrentSession(session);
           },
           onmessage: async (message: LiveServerMessage) => {
-            if (message.serverContent?.inputTranscription) {
-              setCurrentInterviewerText(prev => prev + message.serverContent!.inputTranscription!.text);
+            const inputText = message.serverContent?.inputTranscription?.text;
+            if (inputText) {
+              turnStore.dispatch({ type: 'INPUT_TRANSCRIPTION', text: inputText });
             }
-            
-            if (message.serverContent?.outputTranscription) {
-              setIsGenerating(true);
-              setCurrentAiText(prev => prev + message.serverContent!.outputTranscription!.text);
+            if (message.serverContent?.inputTranscription?.finished) sendTurnInstruction();
+
+            // Text-mode answers come as model text parts rather than a transcript.
+            const outputText = isTextMode
+              ? message.serverContent?.modelTurn?.parts?.filter(p => p.text && !p.thought).map(p => p.text).join('')
+              : message.serverContent?.outputTranscription?.text;
+            if (outputText) {
+              turnStore.dispatch({ type: 'OUTPUT_TRANSCRIPTION', text: outputText });
+              markAnswerStart();
+              turnTimer.firstToken();
             }
 
             if (message.serverContent?.turnComplete) {
-              setIsGenerating(false);
-              setIsListening(false); // Automatically stop listening when a turn is complete
-              
-              const rawText = currentAiText;
-              let cleanAnswer = rawText;
-              let snippets: string[] = [];
-
-              const citationMatch = rawText.match(/RESUME_USAGE:\s*(\[.*\])/s);
-              if (citationMatch) {
-                try {
-                  snippets = JSON.parse(citationMatch[1]);
-                  cleanAnswer = rawText.replace(/RESUME_USAGE:\s*\[.*\]/s, '').trim();
-                } catch (e) {
-                  console.error("Failed to parse citations", e);
+              // The store holds the transcript accumulated so far, so the
+              // Turn is built from current text rather than this closure's.
+              const now = Date.now();
+              const { completedTurn } = turnStore.dispatch({ type: 'TURN_COMPLETE', id: now.toString(), timestamp: now });
+              // The completed turn closes the mic; let ongoing speech re-open it.
+              vad.reset();
+              if (completedTurn && sessionMode === 'mock') {
+                const step = advanceMockInterview(pendingQuestionRef.current, completedTurn, debriefRequestedRef.current);
+                setMockPending(step.pendingQuestion);
+                if (step.turn) {
+                  const practiceTurn = { ...step.turn, questionType: classifyQuestion(step.turn.interviewer) };
+                  setHistory(prev => [...prev, practiceTurn]);
+                }
+                if (step.debrief) {
+                  const debrief = step.debrief;
+                  setCurrentSession(prev => (prev ? { ...prev, debrief } : prev));
+                  setDebriefRequested(true);
+                } else {
+                  // Keep the mic open for the answer to the question just asked.
+                  turnStore.dispatch({ type: 'START_LISTENING' });
                 }
+              } else if (completedTurn) {
+                const turn: Turn = { ...completedTurn, questionType: classifyQuestion(completedTurn.interviewer) };
+                turn.metrics = computeTurnMetrics(turn, turnTimer.complete(), promptChunks);
+                if (questionStartMsRef.current !== null) {
+                  const endMs = Math.min(lastSentMsRef.current, answerStartMsRef.current ?? lastSentMsRef.current);
+                  turn.audioRange = { startMs: questionStartMsRef.current, endMs: Math.max(endMs, questionStartMsRef.current) };
+                }
+                if (captureSource === 'dual') {
+                  setCurrentSession(prev => (prev ? { ...prev, transcript: appendTranscript(prev.transcript || [], 'interviewer', turn.interviewer, turn.timestamp) } : prev));
+                }
+                setHistory(prev => [...prev, turn]);
+                setSelectedTurnId(turn.id);
+                setActiveSegments(turn.usedSegments || []);
               }
-
-              if (cleanAnswer) {
-                const turnId = Date.now().toString();
-                setHistory(prev => [
-                  ...prev,
-                  {
-                    id: turnId,
-                    interviewer: currentInterviewerText,
-                    aiSuggested: cleanAnswer,
-                    timestamp: Date.now(),
-                    usedSegments: snippets
-                  },
-                ]);
-                setSelectedTurnId(turnId);
-                setActiveSegments(snippets);
-                setCurrentInterviewerText('');
-                setCurrentAiText('');
+              if (completedTurn) {
+                turnInstructionSent = false;
+                questionStartMsRef.current = null;
+                answerStartMsRef.current = null;
+                turnTimer.reset();
               }
             }
 
             const audioData = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (audioData && outputCtx && isVoiceEnabled) {
+            if (audioData) markAnswerStart();
+            if (audioData && outputCtx && playModelAudio) {
               nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
               const audioBuffer = await decodeAudioData(decode(audioData), outputCtx, 24000, 1);
               const source = outputCtx.createBufferSource();
               source.buffer = audioBuffer;
               source.connect(outputCtx.destination);
+              if (sessionRecorderRef.current) source.connect(sessionRecorderRef.current.destination);
               source.addEventListener('ended', () => {
                 sourcesRef.current.delete(source);
               });
@@ -227,66 +553,338 @@ RESUME_USAGE: ["snippet 1", "snippet 2"]
               sourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
               sourcesRef.current.clear();
               nextStartTimeRef.current = 0;
-              setIsGenerating(false);
-              setCurrentAiText('');
+              turnStore.dispatch({ type: 'INTERRUPTED' });
+              answerStartMsRef.current = null;
+              turnTimer.interrupted();
               setActiveSegments([]);
             }
           },
           onerror: (e) => {
-            setError('Connection error. Check your API key or network.');
-            stopSession();
+            console.error("Live connection error", e);
+          },
+          onclose: () => {
+            setIsActive(false);
+            endCurrentSession();
+            finishRecording();
+          },
+          onreconnected: () => {
+            if (sessionMode === 'mock' && !debriefRequestedRef.current) {
+              sessionRef.current?.sendText(MOCK_RESUME_PROMPT);
+            }
+          },
+          onstatus: (status, attempt) => {
+            setConnectionStatus(status);
+            setReconnectAttempt(attempt);
+            if (status === 'reconnecting') {
+              // Any half-streamed answer is lost with the socket; the replayed
+              // audio will produce a fresh one.
+              sourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
+              sourcesRef.current.clear();
+              nextStartTimeRef.current = 0;
+              turnStore.dispatch({ type: 'INTERRUPTED' });
+            }
+            if (status === 'failed' && sessionRef.current) {
+              setError('Connection lost and could not be restored. Check your API key or network.');
+              stopSession();
+            }
           },
-          onclose: () => setIsActive(false),
         },
-      });
+      );
 
       sessionRef.current = await sessionPromise;
+      if (sessionMode === 'mock') {
+        sessionRef.current.sendText(MOCK_START_PROMPT);
+      }
+      if (captureSource === 'dual') {
+        if (isSpeechRecognitionSupported()) {
+          candidateRecognizerRef.current = startSpeechRecorder({
+            onFinal: handleCandidateSpeech,
+            onError: (message) => setError(`Your replies are no longer being transcribed: ${message}`),
+          });
+        } else {
+          setError('Speech recognition is unavailable in this browser, so your own replies will not be transcribed.');
+        }
+      }
     } catch (err: any) {
       if (err.message === 'SYSTEM_AUDIO_MISSING') {
         setError('IMPORTANT: You must check the "Share tab audio" checkbox in the popup to use Meet mode.');
       } else {
         setError(err.message || 'Capture failed.');
       }
+      captureRef.current?.stop();
+      captureRef.current = null;
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+      stopCandidateChannel();
+      sessionRecorderRef.current?.cancel();
+      sessionRecorderRef.current = null;
       setIsActive(false);
     }
   };
 
   const toggleListening = () => {
-    if (!isActive) return;
-    setIsListening(!isListening);
+    if (!isActive || isHandsFree) return;
+    turnStore.dispatch({ type: isListening ? 'STOP_LISTENING' : 'START_LISTENING' });
   };
 
-  const handleGenerateAnswer = () => {
-    if (sessionRef.current && currentInterviewerText) {
-      setIsListening(false);
-      setIsGenerating(true);
-      sessionRef.current.send({
-        parts: [{ text: `Answer this interviewer question based on my resume: "${currentInterviewerText}"` }]
+  // Ending a session with measured answers opens its report.
+  const handleStopSession = () => {
+    stopSession();
+    if (history.some(t => t.metrics)) setIsReportOpen(true);
+  };
+
+  // Aborts the request/response calls: a fallback answer and a refinement.
+  const cancelAnswerRequests = () => {
+    offlineAnswerRef.current?.abort();
+    offlineAnswerRef.current = null;
+    refinementRef.current?.abort();
+    refinementRef.current = null;
+    setRefining(null);
+  };
+
+  // Fallback for when there is no connected live session: one request/response
+  // call that streams into the same turn state and yields the same Turn.
+  const generateWithoutLive = async (question: string) => {
+    const controller = new AbortController();
+    offlineAnswerRef.current = controller;
+    const questionType = classifyQuestion(question);
+
+    // Answers go into the session on screen, unless that is a past session
+    // shown against an older resume or job snapshot.
+    if (!isActive && (!currentSession || reviewResume !== null || reviewJobContext !== null)) {
+      const session = createSession({
+        profileId: activeProfile.id,
+        mode: 'copilot',
+        startedAt: Date.now(),
+        audioSource,
+        resumeVersion: getResumeVersion(resume),
+        resumeText: resume,
+        jobContext,
       });
+      setCurrentSession({ ...session, name: session.name.replace('Interview', 'Typed Q&A') });
+      setHistory([]);
+    }
+
+    const redact = createRedactor(redaction, resume);
+    turnStore.dispatch({ type: 'MANUAL_TRIGGER' });
+    try {
+      await answerProvider.generate(
+        {
+          model: TEXT_ANSWER_MODEL,
+          systemInstruction: redact(buildSystemInstruction({ resume, jobContext, preferences, answerLength: modelSettings.answerLength })),
+          prompt: redact(buildAnswerRequest(question, questionType, preferences.templates)),
+          temperature: modelSettings.temperature,
+          signal: controller.signal,
+        },
+        (text) => {
+          if (!controller.signal.aborted) turnStore.dispatch({ type: 'OUTPUT_TRANSCRIPTION', text });
+        },
+      );
+      if (controller.signal.aborted) return;
+      const now = Date.now();
+      const { completedTurn } = turnStore.dispatch({ type: 'TURN_COMPLETE', id: now.toString(), timestamp: now });
+      if (!completedTurn) {
+        setError('The model returned an empty answer. Try again.');
+        return;
+      }
+      // No latency metrics: they describe the live path.
+      const turn: Turn = { ...completedTurn, questionType, isOffline: true };
+      setHistory(prev => [...prev, turn]);
+      setSelectedTurnId(turn.id);
+      setActiveSegments(turn.usedSegments || []);
+      if (!isActive) {
+        setCurrentSession(prev => (prev ? { ...prev, endedAt: now } : prev));
+      }
+    } catch (e: any) {
+      if (controller.signal.aborted) return;
+      turnStore.dispatch({ type: 'INTERRUPTED' });
+      setError(`Could not generate an answer: ${e.message || 'request failed.'}`);
+    } finally {
+      if (offlineAnswerRef.current === controller) offlineAnswerRef.current = null;
+    }
+  };
+
+  const handleGenerateAnswer = () => {
+    const state = turnStore.getState();
+    const question = state.interviewerText.trim();
+    if (!question || state.phase === 'generating') return;
+    if (sessionRef.current && isActive && connectionStatus === 'connected') {
+      turnStore.dispatch({ type: 'MANUAL_TRIGGER' });
+      turnTimer.trigger();
+      const redact = createRedactor(redaction, resume);
+      sessionRef.current.sendText(redact(buildAnswerRequest(question, classifyQuestion(question), preferences.templates)));
+      return;
+    }
+    generateWithoutLive(question);
+  };
+
+  const handleAskTyped = (e: React.FormEvent) => {
+    e.preventDefault();
+    const question = typedQuestion.trim();
+    if (!question || turnStore.getState().phase === 'generating') return;
+    turnStore.dispatch({ type: 'EDIT_QUESTION', text: question });
+    setTypedQuestion('');
+    handleGenerateAnswer();
+  };
+
+  // Rewrites the chosen version of a turn's answer and adds the result as a
+  // new, chosen version. Runs against the resume and job shown with the turn.
+  const handleRefine = async (turn: Turn, kind: RefinementKind) => {
+    if (refinementRef.current) return;
+    const controller = new AbortController();
+    refinementRef.current = controller;
+    setRefining({ turnId: turn.id, kind, text: '' });
+    const redact = createRedactor(redaction, shownResume);
+    try {
+      const raw = await answerProvider.generate(
+        {
+          model: TEXT_ANSWER_MODEL,
+          systemInstruction: redact(buildSystemInstruction({ resume: shownResume, jobContext: shownJobContext, preferences })),
+          prompt: redact(buildRefinementRequest(turn, kind)),
+          temperature: modelSettings.temperature,
+          signal: controller.signal,
+        },
+        (text) => {
+          if (!controller.signal.aborted) setRefining(prev => (prev ? { ...prev, text: prev.text + text } : prev));
+        },
+      );
+      if (controller.signal.aborted) return;
+      const { answer, segments } = parseResumeUsage(raw);
+      if (!answer) {
+        setError('The model returned an empty rewrite. Try again.');
+        return;
+      }
+      setHistory(prev => prev.map(t => (t.id === turn.id ? addRefinedVersion(t, kind, answer, segments, Date.now()) : t)));
+      if (selectedTurnId === turn.id) setActiveSegments(segments);
+    } catch (e: any) {
+      if (controller.signal.aborted) return;
+      setError(`Could not refine the answer: ${e.message || 'request failed.'}`);
+    } finally {
+      if (refinementRef.current === controller) {
+        refinementRef.current = null;
+        setRefining(null);
+      }
+    }
+  };
+
+  const handleChooseVersion = (turn: Turn, versionId: string) => {
+    const updated = chooseVersion(turn, versionId);
+    setHistory(prev => prev.map(t => (t.id === turn.id ? updated : t)));
+    if (selectedTurnId === turn.id) setActiveSegments(updated.usedSegments || []);
+  };
+
+  // Prep requests run against the active profile's current resume and job
+  // context, like typed questions, and are masked the same way.
+  const requestPrepText = (prompt: string, signal: AbortSignal) => {
+    const redact = createRedactor(redaction, resume);
+    return answerProvider.generate(
+      {
+        model: TEXT_ANSWER_MODEL,
+        systemInstruction: redact(buildSystemInstruction({ resume, jobContext, preferences, answerLength: modelSettings.answerLength })),
+        prompt: redact(prompt),
+        temperature: modelSettings.temperature,
+        signal,
+      },
+      () => {},
+    );
+  };
+
+  const answerPrepItems = async (profileId: string, items: PrepItem[], signal: AbortSignal) => {
+    for (const [i, item] of items.entries()) {
+      setPrepProgress({ label: items.length > 1 ? `Answering ${i + 1} of ${items.length}...` : 'Writing answer...', itemId: item.id });
+      const raw = await requestPrepText(buildAnswerRequest(item.question, item.questionType, preferences.templates), signal);
+      if (signal.aborted) return;
+      const { answer, segments } = parseResumeUsage(raw);
+      updatePrepPack(profileId, pack => ({
+        ...pack,
+        items: pack.items.map(p => (p.id === item.id ? { ...p, answer, usedSegments: segments, updatedAt: Date.now() } : p)),
+      }));
     }
   };
 
+  const runPrepTask = async (task: (signal: AbortSignal) => Promise<void>) => {
+    if (prepPackRef.current) return;
+    const controller = new AbortController();
+    prepPackRef.current = controller;
+    try {
+      await task(controller.signal);
+    } catch (e: any) {
+      if (controller.signal.aborted) return;
+      setError(`Could not prepare answers: ${e.message || 'request failed.'}`);
+    } finally {
+      if (prepPackRef.current === controller) {
+        prepPackRef.current = null;
+        setPrepProgress(null);
+      }
+    }
+  };
+
+  // Predicts likely questions, then answers them one by one. Items the
+  // candidate edited are kept; the rest of the old pack is replaced.
+  const handleGeneratePrepPack = () => runPrepTask(async (signal) => {
+    const profileId = activeProfile.id;
+    setPrepProgress({ label: 'Predicting questions...' });
+    const raw = await requestPrepText(buildPrepQuestionsRequest(), signal);
+    if (signal.aborted) return;
+    const kept = prepPack.items.filter(item => item.isEdited);
+    const questions = parsePredictedQuestions(stripResumeUsage(raw))
+      .filter(question => !kept.some(item => item.question.trim().toLowerCase() === question.toLowerCase()));
+    if (questions.length === 0) {
+      setError('The model returned no questions. Try again.');
+      return;
+    }
+    const now = Date.now();
+    const added = questions.map(question => createPrepItem(question, '', [], now));
+    updatePrepPack(profileId, pack => ({
+      items: [...pack.items.filter(item => item.isEdited), ...added],
+      resumeVersion: getResumeVersion(resume),
+      generatedAt: now,
+    }));
+    await answerPrepItems(profileId, added, signal);
+  });
+
+  const handleAnswerPrepItem = (item: PrepItem) =>
+    runPrepTask(signal => answerPrepItems(activeProfile.id, [item], signal));
+
+  const handleCancelPrepPack = () => {
+    prepPackRef.current?.abort();
+    prepPackRef.current = null;
+    setPrepProgress(null);
+  };
+
+  const handleEndMockInterview = () => {
+    if (!sessionRef.current || debriefRequestedRef.current) return;
+    setDebriefRequested(true);
+    turnStore.dispatch({ type: 'STOP_LISTENING' });
+    sessionRef.current.sendText(MOCK_END_PROMPT);
+  };
+
   const handleNextQuestion = () => {
-    setCurrentInterviewerText('');
-    setCurrentAiText('');
-    setIsGenerating(false);
-    setIsListening(false);
+    turnStore.dispatch({ type: 'NEXT' });
     setActiveSegments([]);
     setSelectedTurnId(null);
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const text = event.target?.result as string;
-        setResume(text);
-      };
-      reader.readAsText(file);
+    e.target.value = '';
+    if (!file) return;
+    setIsParsingResume(true);
+    try {
+      const text = await extractResumeText(file);
+      setResumeDraft({ fileName: file.name, sections: parseResumeSections(text) });
+    } catch (err: any) {
+      setError(err.message || 'Could not read that resume.');
+    } finally {
+      setIsParsingResume(false);
     }
   };
 
+  const applyResumeDraft = (sections: ResumeSections) => {
+    setResume(formatResumeSections(sections));
+    setResumeDraft(null);
+  };
+
   const handleSpeakText = (text: string) => {
     window.speechSynthesis.cancel();
     const utterance = new SpeechSynthesisUtterance(text);
@@ -300,34 +898,262 @@ RESUME_USAGE: ["snippet 1", "snippet 2"]
     setActiveSegments(turn.usedSegments || []);
   };
 
-  const highlightedResume = useMemo(() => {
-    if (!resume) return null;
-    if (activeSegments.length === 0) return resume;
+  const stopTurnAudio = () => {
+    recordingPlayer.stop();
+    setPlayingTurnId(null);
+  };
+
+  // Plays what the model actually heard for this question. Skipped mid-session,
+  // where the playback would be picked up by the capture.
+  const playTurnAudio = (turn: Turn) => {
+    const session = currentSession;
+    if (isActive || !turn.audioRange || !session?.recording) return;
+    setPlayingTurnId(turn.id);
+    recordingPlayer.play(session.id, turn.audioRange, audioDevices.outputId)
+      .catch(e => setError(e.message || 'Could not play the recording.'))
+      .finally(() => setPlayingTurnId(prev => (prev === turn.id ? null : prev)));
+  };
 
-    const sortedSegments = [...activeSegments].sort((a, b) => b.length - a.length);
-    const escapedSegments = sortedSegments.map(s => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
-    const combinedRegex = new RegExp(`(${escapedSegments.join('|')})`, 'gi');
+  const handleTurnClick = (turn: Turn) => {
+    selectHistoryItem(turn);
+    playTurnAudio(turn);
+  };
 
-    const parts = resume.split(combinedRegex);
-    return parts.map((part, i) => {
-      const isMatch = sortedSegments.some(s => s.toLowerCase() === part.toLowerCase());
-      if (isMatch) {
-        return (
-          <span 
-            key={i} 
-            className="bg-indigo-500/30 text-indigo-100 rounded px-0.5 shadow-[0_0_8px_rgba(99,102,241,0.3)] transition-all animate-pulse"
-          >
-            {part}
-          </span>
-        );
-      }
-      return part;
-    });
-  }, [resume, activeSegments]);
+  const cancelRehearsal = () => {
+    recorderRef.current?.cancel();
+    recorderRef.current = null;
+    setRehearsal(null);
+  };
+
+  const startRehearsal = (turn: Turn) => {
+    if (isActive || recorderRef.current) return;
+    try {
+      recorderRef.current = startSpeechRecorder({
+        onTranscript: (transcript) => setRehearsal(prev => (prev ? { ...prev, transcript } : prev)),
+        onError: (message) => {
+          setError(message);
+          cancelRehearsal();
+        },
+      });
+      setRehearsal({ turnId: turn.id, transcript: '' });
+    } catch (e: any) {
+      setError(e.message || 'Could not start recording.');
+    }
+  };
+
+  const finishRehearsal = async () => {
+    const recorder = recorderRef.current;
+    const turn = history.find(t => t.id === rehearsal?.turnId);
+    if (!recorder || !turn) return;
+    recorderRef.current = null;
+    const { transcript, durationMs } = await recorder.stop();
+    setRehearsal(null);
+    if (!transcript.trim()) {
+      setError('No speech was picked up. Check your microphone and try again.');
+      return;
+    }
+    const evidence = resolveCitations(turn.usedSegments || [], citableChunks).chunks
+      .filter(c => !isJobChunkId(c.id))
+      .map(c => c.text);
+    const now = Date.now();
+    const attempt: RehearsalAttempt = {
+      id: now.toString(),
+      timestamp: now,
+      ...scoreRehearsal({ transcript, durationMs, suggestion: turn.role === 'practice' ? '' : turn.aiSuggested, evidence }),
+    };
+    setHistory(prev => prev.map(t => (t.id === turn.id ? { ...t, rehearsals: [...(t.rehearsals || []), attempt] } : t)));
+  };
+
+  const openSession = (session: InterviewSession) => {
+    if (isActive) return;
+    cancelRehearsal();
+    stopTurnAudio();
+    cancelAnswerRequests();
+    setCurrentSession(session);
+    setHistory(session.turns);
+    turnStore.dispatch({ type: 'RESET' });
+    setSelectedTurnId(null);
+    setActiveSegments([]);
+    setMockPending(null);
+    setDebriefRequested(false);
+    setHistoryFilter('all');
+  };
+
+  const handleRenameSession = (id: string, name: string) => {
+    if (currentSession?.id === id) {
+      setCurrentSession({ ...currentSession, name });
+      return;
+    }
+    const session = sessions.find(s => s.id === id);
+    if (!session) return;
+    const renamed = { ...session, name };
+    setSessions(prev => prev.map(s => (s.id === id ? renamed : s)));
+    saveSession(renamed).catch(e => console.error("Failed to rename session", e));
+  };
+
+  const handleDeleteSession = (id: string) => {
+    if (currentSession?.id === id) {
+      if (isActive) return;
+      setCurrentSession(null);
+      setHistory([]);
+      setSelectedTurnId(null);
+      setActiveSegments([]);
+    }
+    setSessions(prev => prev.filter(s => s.id !== id));
+    deleteSession(id).catch(e => console.error("Failed to delete session", e));
+  };
+
+  const handleExportSession = (session: InterviewSession, format: ExportFormat) => {
+    const { content, mimeType, extension } = exportSession(session, format);
+    downloadFile(getExportFilename(session, extension), content, mimeType);
+  };
+
+  const handleImportSession = async (file: File) => {
+    try {
+      const { session, warnings } = parseSessionImport(await file.text());
+      // Never overwrite an existing record; re-importing gives a copy. Sessions
+      // from unknown profiles land in the one being viewed.
+      const profileId = profiles.some(p => p.id === session.profileId) ? session.profileId : activeProfile.id;
+      const imported = sessions.some(s => s.id === session.id)
+        ? { ...session, profileId, id: generateSessionId(), name: `${session.name} (imported)` }
+        : { ...session, profileId };
+      await saveSession(imported);
+      setSessions(prev => [imported, ...prev].sort((a, b) => b.startedAt - a.startedAt));
+      setImportWarnings(warnings.length > 0 ? { title: `Session "${imported.name}"`, warnings } : null);
+    } catch (e: any) {
+      setError(`Import failed: ${e.message || 'Unreadable file.'}`);
+    }
+  };
+
+  const clearSessionView = () => {
+    cancelRehearsal();
+    stopTurnAudio();
+    cancelAnswerRequests();
+    setCurrentSession(null);
+    setHistory([]);
+    turnStore.dispatch({ type: 'RESET' });
+    setSelectedTurnId(null);
+    setActiveSegments([]);
+    setMockPending(null);
+    setDebriefRequested(false);
+    setHistoryFilter('all');
+  };
+
+  const handleSwitchProfile = (id: string) => {
+    if (isActive || id === activeProfileId) return;
+    setActiveProfileId(id);
+    clearSessionView();
+  };
+
+  const handleCreateProfile = (name: string) => {
+    if (isActive) return;
+    const profile = createProfile(name);
+    setProfiles(prev => [...prev, profile]);
+    setActiveProfileId(profile.id);
+    clearSessionView();
+  };
+
+  const handleRenameProfile = (id: string, name: string) => {
+    setProfiles(prev => prev.map(p => (p.id === id ? { ...p, name, updatedAt: Date.now() } : p)));
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (isActive || !profile || profiles.length <= 1) return;
+    const owned = sessions.filter(s => sessionBelongsToProfile(s, id, profiles));
+    if (!window.confirm(`Delete profile "${profile.name}" and its ${owned.length} saved session${owned.length === 1 ? '' : 's'}?`)) return;
+    owned.forEach(s => deleteSession(s.id).catch(e => console.error("Failed to delete session", e)));
+    setSessions(prev => prev.filter(s => !owned.includes(s)));
+    const remaining = profiles.filter(p => p.id !== id);
+    setProfiles(remaining);
+    if (id === activeProfileId) {
+      setActiveProfileId(remaining[0].id);
+      clearSessionView();
+    }
+  };
+
+  const handleExportProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return;
+    const owned = sessions.filter(s => sessionBelongsToProfile(s, id, profiles));
+    downloadFile(getProfileExportFilename(profile), exportProfileJson(profile, owned), 'application/json');
+  };
+
+  const handleImportProfile = async (file: File) => {
+    if (isActive) return;
+    try {
+      const { profile, sessions: imported, warnings } = parseProfileImport(await file.text());
+      await Promise.all(imported.map(saveSession));
+      setSessions(prev => [...imported, ...prev].sort((a, b) => b.startedAt - a.startedAt));
+      setProfiles(prev => [...prev, profile]);
+      setActiveProfileId(profile.id);
+      clearSessionView();
+      setImportWarnings(warnings.length > 0 ? { title: `Profile "${profile.name}"`, warnings } : null);
+    } catch (e: any) {
+      setError(`Import failed: ${e.message || 'Unreadable file.'}`);
+    }
+  };
+
+  const profileSessions = useMemo(
+    () => sessions.filter(s => sessionBelongsToProfile(s, activeProfile.id, profiles)),
+    [sessions, activeProfile.id, profiles]
+  );
+  const rehearsalPoints = useMemo(() => collectRehearsalHistory(profileSessions), [profileSessions]);
+
+  // When reviewing a past session that ran against an older resume or job
+  // context, show and cite against that snapshot so its chunk IDs resolve.
+  const isReviewing = !isActive && currentSession !== null;
+  const reviewResume = isReviewing && currentSession.resumeText !== undefined && currentSession.resumeText !== resume
+    ? currentSession.resumeText
+    : null;
+  const reviewJobContext = isReviewing && currentSession.jobContext !== undefined
+    && JSON.stringify(currentSession.jobContext) !== JSON.stringify(jobContext)
+    ? currentSession.jobContext
+    : null;
+  const shownResume = reviewResume ?? resume;
+  const shownJobContext = reviewJobContext ?? jobContext;
+  const shownChunks = useMemo(() => chunkResume(shownResume), [shownResume]);
+  const shownJobChunks = useMemo(() => chunkJobDescription(shownJobContext), [shownJobContext]);
+  const citableChunks = useMemo(() => [...shownChunks, ...shownJobChunks], [shownChunks, shownJobChunks]);
+  const activeChunkIds = useMemo(
+    () => resolveCitations(activeSegments, citableChunks).chunks.map(c => c.id),
+    [activeSegments, citableChunks]
+  );
+
+  const jumpToChunk = (chunkId: string) => {
+    setContextTab(isJobChunkId(chunkId) ? 'job' : 'resume');
+    setFocusedChunk({ id: chunkId, nonce: Date.now() });
+  };
+
+  const typeCounts = useMemo(() => {
+    const counts: Partial<Record<QuestionType, number>> = {};
+    history.forEach(t => { if (t.questionType) counts[t.questionType] = (counts[t.questionType] || 0) + 1; });
+    return counts;
+  }, [history]);
+  const visibleHistory = historyFilter === 'all' ? history : history.filter(t => t.questionType === historyFilter);
 
   const displayAiText = useMemo(() => {
-    return currentAiText.replace(/RESUME_USAGE:\s*\[.*\]/s, '').trim();
+    return stripResumeUsage(currentAiText);
   }, [currentAiText]);
+  // Between questions the active suggestion slot holds the selected turn's
+  // chosen answer, with its versions and refinements. A streaming refinement
+  // takes the slot while no live answer is being written there.
+  const selectedTurn = !displayAiText && !currentInterviewerText
+    ? history.find(t => t.id === selectedTurnId) ?? null
+    : null;
+  const refiningText = refining ? stripResumeUsage(refining.text) : '';
+  const suggestionText = displayAiText || refiningText || selectedTurn?.aiSuggested || '';
+
+  // A reviewed session keeps its own mode; otherwise the header toggle decides.
+  const isMock = isActive || !currentSession ? mode === 'mock' : currentSession.mode === 'mock';
+  const isHandsFree = !isMock && listenSettings.mode === 'auto';
+  const mockInterviewerText = displayAiText || pendingQuestion;
+  // A prepared answer for the question being asked, shown while the live
+  // answer is still on its way.
+  const prepMatch = useMemo(
+    () => (isMock || !currentInterviewerText.trim() ? null : matchPrepItem(currentInterviewerText, prepPack.items)),
+    [isMock, currentInterviewerText, prepPack.items]
+  );
 
   return (
     <div className="flex flex-col h-screen bg-slate-950 text-slate-100 overflow-hidden font-sans">
@@ -343,11 +1169,57 @@ RESUME_USAGE: ["snippet 1", "snippet 2"]
             <h1 className="text-xl font-black tracking-tight flex items-center">
               INTERVIEW <span className="text-indigo-500 ml-1.5 underline decoration-2 decoration-indigo-500/30 underline-offset-4">COPILOT</span>
             </h1>
+            {currentSession && (
+              <div className="text-[9px] font-bold text-slate-500 uppercase tracking-widest truncate max-w-xs">
+                {currentSession.name}{!isActive && currentSession.endedAt !== null ? ' (Review)' : ''}
+              </div>
+            )}
           </div>
         </div>
 
         <div className="flex items-center space-x-4">
-          <div className="bg-slate-800/80 rounded-xl p-1 border border-slate-700 flex mr-2">
+          <ProfileSwitcher
+            profiles={profiles}
+            activeProfileId={activeProfile.id}
+            isLocked={isActive}
+            onSwitch={handleSwitchProfile}
+            onCreate={handleCreateProfile}
+            onRename={handleRenameProfile}
+            onDelete={handleDeleteProfile}
+            onExport={handleExportProfile}
+            onImport={handleImportProfile}
+          />
+          {connectionStatus !== 'closed' && (
+            <div className={`flex items-center space-x-2 px-3 py-1.5 rounded-lg border text-[9px] font-black uppercase tracking-widest ${
+              connectionStatus === 'connected' ? 'border-emerald-500/30 text-emerald-400 bg-emerald-500/5'
+                : connectionStatus === 'failed' ? 'border-rose-500/30 text-rose-400 bg-rose-500/5'
+                : 'border-amber-500/30 text-amber-400 bg-amber-500/5'
+            }`}>
+              <div className={`w-1.5 h-1.5 rounded-full ${
+                connectionStatus === 'connected' ? 'bg-emerald-500'
+                  : connectionStatus === 'failed' ? 'bg-rose-500'
+                  : 'bg-amber-500 animate-pulse'
+              }`}></div>
+              <span>
+                {connectionStatus === 'connected' && 'Connected'}
+                {connectionStatus === 'connecting' && 'Connecting...'}
+                {connectionStatus === 'reconnecting' && `Reconnecting (${reconnectAttempt})...`}
+                {connectionStatus === 'failed' && 'Connection Failed'}
+              </span>
+            </div>
+          )}
+          <div className="bg-slate-800/80 rounded-xl p-1 border border-slate-700 flex">
+            {(['copilot', 'mock'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => { if (!isActive) setMode(m); }}
+                className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${isActive ? 'cursor-not-allowed opacity-50' : 'hover:bg-slate-700/50'} ${mode === m ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500'}`}
+              >
+                {m === 'copilot' ? 'Copilot' : 'Mock'}
+              </button>
+            ))}
+          </div>
+          <div className={`bg-slate-800/80 rounded-xl p-1 border border-slate-700 flex mr-2 ${mode === 'mock' ? 'hidden' : ''}`}>
             <button 
               onClick={() => { if(!isActive) setAudioSource('microphone'); }}
               className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${isActive ? 'cursor-not-allowed opacity-50' : 'hover:bg-slate-700/50'} ${audioSource === 'microphone' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500'}`}
@@ -360,10 +1232,17 @@ RESUME_USAGE: ["snippet 1", "snippet 2"]
             >
               Meet/Tab
             </button>
+            <button
+              onClick={() => { if(!isActive) setAudioSource('dual'); }}
+              title="Tab audio goes to the live model. Your mic is transcribed by the browser's speech recognition instead, which in Chrome sends it to Google."
+              className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${isActive ? 'cursor-not-allowed opacity-50' : 'hover:bg-slate-700/50'} ${audioSource === 'dual' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500'}`}
+            >
+              Tab + Mic
+            </button>
           </div>
 
           <button
-            onClick={isActive ? stopSession : startSession}
+            onClick={isActive ? handleStopSession : startSession}
             className={`px-8 py-2.5 rounded-xl font-black text-sm transition-all duration-300 transform active:scale-95 shadow-2xl ${
               isActive 
                 ? 'bg-rose-600 hover:bg-rose-500 text-white shadow-rose-900/40' 
@@ -382,16 +1261,45 @@ RESUME_USAGE: ["snippet 1", "snippet 2"]
           <div className="p-4 border-b border-slate-800 bg-slate-900/40">
             <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Controls</h3>
           </div>
-          <div className="p-6 space-y-6">
+          <div className="flex-1 flex flex-col p-6 space-y-6 overflow-y-auto">
             <button 
               onClick={() => setIsVoiceEnabled(!isVoiceEnabled)}
-              className={`w-full py-4 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all flex items-center justify-center space-x-2 ${isVoiceEnabled ? 'bg-indigo-500/10 border-indigo-500/50 text-indigo-400 shadow-[0_0_15px_rgba(99,102,241,0.1)]' : 'bg-slate-800/80 border-slate-700 text-slate-500 hover:text-slate-300'}`}
+              disabled={modelSettings.responseModality === 'text'}
+              className={`w-full py-4 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all flex items-center justify-center space-x-2 disabled:opacity-40 disabled:cursor-not-allowed ${isVoiceEnabled ? 'bg-indigo-500/10 border-indigo-500/50 text-indigo-400 shadow-[0_0_15px_rgba(99,102,241,0.1)]' : 'bg-slate-800/80 border-slate-700 text-slate-500 hover:text-slate-300'}`}
             >
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
-              <span>{isVoiceEnabled ? 'AI Voice Enabled' : 'AI Voice Muted'}</span>
+              <span>{modelSettings.responseModality === 'text' ? 'Text Responses' : isVoiceEnabled ? 'AI Voice Enabled' : 'AI Voice Muted'}</span>
             </button>
+            {isSessionRecordingSupported() && (
+              <button
+                onClick={() => { if (!isActive) setIsRecordingEnabled(!isRecordingEnabled); }}
+                title="Keeps a local recording of the session so each question's audio can be replayed."
+                className={`w-full py-3 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all flex items-center justify-center space-x-2 ${isActive ? 'cursor-not-allowed' : ''} ${isRecordingEnabled ? 'bg-rose-500/10 border-rose-500/40 text-rose-400' : 'bg-slate-800/80 border-slate-700 text-slate-500 hover:text-slate-300'}`}
+              >
+                <span className={`w-2 h-2 rounded-full ${isRecordingEnabled ? 'bg-rose-500' : 'bg-slate-600'} ${isRecordingEnabled && isActive ? 'animate-pulse' : ''}`}></span>
+                <span>{isRecordingEnabled ? (isActive ? 'Recording Audio' : 'Record Audio On') : 'Record Audio Off'}</span>
+              </button>
+            )}
+            <AudioDevicesPanel settings={audioDevices} onChange={setAudioDevices} isActive={isActive} />
+            <ListenSettingsPanel
+              settings={listenSettings}
+              onChange={setListenSettings}
+              levelStore={levelStore}
+              candidateLevelStore={audioSource === 'dual' && !isMock ? candidateLevelStore : undefined}
+              isActive={isActive}
+            />
             <div className="bg-slate-900/40 border border-slate-800 rounded-2xl p-4">
-              <h4 className="text-[9px] font-black text-slate-500 uppercase mb-3">Session Stats</h4>
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="text-[9px] font-black text-slate-500 uppercase">Session Stats</h4>
+                {currentSession && !isActive && (
+                  <button
+                    onClick={() => setIsReportOpen(true)}
+                    className="text-[8px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-400"
+                  >
+                    Report
+                  </button>
+                )}
+              </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="bg-black/20 p-3 rounded-lg border border-slate-800/50">
                   <div className="text-[8px] text-slate-500 uppercase">Questions</div>
@@ -405,6 +1313,17 @@ RESUME_USAGE: ["snippet 1", "snippet 2"]
                 </div>
               </div>
             </div>
+            <RehearsalProgressChart points={rehearsalPoints} />
+            <SessionBrowser
+              sessions={profileSessions}
+              currentSessionId={currentSession?.id ?? null}
+              isLocked={isActive}
+              onOpen={openSession}
+              onRename={handleRenameSession}
+              onDelete={handleDeleteSession}
+              onExport={handleExportSession}
+              onImport={handleImportSession}
+            />
           </div>
         </aside>
 
@@ -418,18 +1337,35 @@ RESUME_USAGE: ["snippet 1", "snippet 2"]
                  <div className="flex items-center space-x-3">
                    <div className={`w-2 h-2 rounded-full ${isListening ? 'bg-emerald-500 animate-pulse' : 'bg-slate-700'}`}></div>
                    <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">
-                     {isListening ? 'Listening to Interviewer...' : 'Mic Paused (Safe to Talk)'}
+                     {isMock
+                       ? (isListening ? 'Listening to Your Answer...' : 'Mic Paused')
+                       : isHandsFree
+                         ? (isListening ? 'Speech Detected...' : 'Hands-free: Waiting for Speech')
+                         : (isListening ? 'Listening to Interviewer...' : 'Mic Paused (Safe to Talk)')}
                    </h2>
                  </div>
                </div>
-               <div className={`text-2xl md:text-3xl font-bold leading-tight italic min-h-[80px] transition-all duration-300 ${isListening ? 'text-slate-100' : 'text-slate-600'}`}>
-                  {currentInterviewerText || (isActive ? (isListening ? "Transcribing question..." : "Ready to listen...") : "Connect to start...")}
-               </div>
+               {!isMock && !isListening && !isGenerating ? (
+                 // Paused: the transcript can be corrected before asking for an answer.
+                 <textarea
+                   value={currentInterviewerText}
+                   onChange={(e) => turnStore.dispatch({ type: 'EDIT_QUESTION', text: e.target.value })}
+                   placeholder={isActive ? "Ready to listen..." : "Connect to start, or type a question..."}
+                   rows={2}
+                   className={`w-full bg-transparent resize-none focus:outline-none text-2xl md:text-3xl font-bold leading-tight italic min-h-[80px] placeholder-slate-600 ${currentInterviewerText ? 'text-slate-300' : 'text-slate-600'}`}
+                 />
+               ) : (
+                 <div className={`text-2xl md:text-3xl font-bold leading-tight italic min-h-[80px] transition-all duration-300 ${isListening ? 'text-slate-100' : 'text-slate-600'}`}>
+                    {currentInterviewerText || (isActive
+                      ? (isMock ? (isListening ? "Answer out loud when ready..." : "Waiting for the interviewer...") : (isListening ? "Transcribing question..." : "Ready to listen..."))
+                      : (isMock ? "Connect to start a mock interview..." : "Connect to start..."))}
+                 </div>
+               )}
                
                <div className="flex items-center space-x-4">
                   {/* Primary Listening Button */}
                   <button 
-                    disabled={!isActive || isGenerating}
+                    disabled={!isActive || isGenerating || isHandsFree}
                     onClick={toggleListening}
                     className={`px-8 py-4 rounded-2xl text-sm font-black uppercase tracking-widest transition-all shadow-xl flex items-center space-x-3 transform active:scale-95 ${
                       isListening 
@@ -442,47 +1378,147 @@ RESUME_USAGE: ["snippet 1", "snippet 2"]
                     ) : (
                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
                     )}
-                    <span>{isListening ? "I'm Done Listening" : "Listen to Interviewer"}</span>
+                    <span>
+                      {isMock ? (isListening ? "Pause Mic" : "Resume Mic")
+                        : isHandsFree ? (isListening ? "Hearing Question" : "Hands-free")
+                        : (isListening ? "I'm Done Listening" : "Listen to Interviewer")}
+                    </span>
                   </button>
 
-                  <button 
-                    disabled={!currentInterviewerText || isGenerating || !isActive}
-                    onClick={handleGenerateAnswer}
-                    className="px-6 py-4 bg-slate-800 hover:bg-slate-700 disabled:opacity-20 text-slate-100 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all border border-slate-700"
-                  >
-                    {isGenerating ? "Analyzing..." : "Analyze & Answer"}
-                  </button>
+                  {isMock ? (
+                    <button
+                      disabled={!isActive || isDebriefRequested}
+                      onClick={handleEndMockInterview}
+                      className="px-6 py-4 bg-slate-800 hover:bg-slate-700 disabled:opacity-20 text-slate-100 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all border border-slate-700"
+                    >
+                      {isDebriefRequested && !currentSession?.debrief ? "Scoring..." : "End & Debrief"}
+                    </button>
+                  ) : (
+                    <>
+                      <button 
+                        disabled={!currentInterviewerText.trim() || isGenerating}
+                        onClick={handleGenerateAnswer}
+                        title={isActive && connectionStatus === 'connected' ? undefined : 'No live session: answered with a standard request instead.'}
+                        className="px-6 py-4 bg-slate-800 hover:bg-slate-700 disabled:opacity-20 text-slate-100 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all border border-slate-700"
+                      >
+                        {isGenerating ? "Analyzing..." : "Analyze & Answer"}
+                      </button>
 
-                  <button 
-                    disabled={!currentInterviewerText && !displayAiText || isGenerating}
-                    onClick={handleNextQuestion}
-                    className="px-4 py-4 bg-slate-900 hover:bg-slate-800 disabled:opacity-20 text-slate-500 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all"
-                  >
-                    Next
-                  </button>
+                      <button 
+                        disabled={!currentInterviewerText && !displayAiText || isGenerating}
+                        onClick={handleNextQuestion}
+                        className="px-4 py-4 bg-slate-900 hover:bg-slate-800 disabled:opacity-20 text-slate-500 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all"
+                      >
+                        Next
+                      </button>
+                    </>
+                  )}
                </div>
+
+               {!isMock && (
+                 <form onSubmit={handleAskTyped} className="mt-4 flex items-center space-x-2">
+                   <input
+                     value={typedQuestion}
+                     onChange={(e) => setTypedQuestion(e.target.value)}
+                     placeholder="Or type a question..."
+                     className="flex-1 bg-black/30 border border-slate-800 rounded-xl px-4 py-3 text-xs text-slate-200 placeholder-slate-600 focus:outline-none focus:border-indigo-500"
+                   />
+                   <button
+                     type="submit"
+                     disabled={!typedQuestion.trim() || isGenerating}
+                     className="px-4 py-3 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-20 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-all"
+                   >
+                     Ask
+                   </button>
+                 </form>
+               )}
             </div>
 
-            {/* 2. Active Suggested Answer */}
-            {displayAiText && (
+            {/* 2. Mock interviewer question, or the active suggested answer */}
+            {isMock && isActive && mockInterviewerText && !isDebriefRequested && (
+              <div className="animate-in slide-in-from-bottom-8 duration-500">
+                <div className="flex items-center space-x-3 mb-6">
+                  <div className={`w-2 h-2 rounded-full bg-amber-500 ${isGenerating ? 'animate-pulse' : ''}`}></div>
+                  <h2 className="text-[10px] font-black text-amber-400 uppercase tracking-widest">Mock Interviewer</h2>
+                </div>
+                <div className="bg-amber-500/5 border border-amber-500/30 p-10 rounded-[2.5rem] shadow-2xl">
+                  <div className="text-xl md:text-2xl font-medium leading-relaxed text-amber-50 whitespace-pre-wrap">
+                    {mockInterviewerText}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {isMock && (currentSession?.debrief || (isDebriefRequested && displayAiText)) && (
+              <div className="animate-in slide-in-from-bottom-8 duration-500">
+                <div className="flex items-center justify-between mb-6">
+                  <div className="flex items-center space-x-3">
+                    <div className="w-2 h-2 rounded-full bg-emerald-500 shadow-[0_0_10px_rgba(16,185,129,0.5)]"></div>
+                    <h2 className="text-[10px] font-black text-emerald-400 uppercase tracking-widest">Debrief</h2>
+                  </div>
+                  {currentSession?.debrief?.score != null && (
+                    <span className="text-2xl font-black text-emerald-400">{currentSession.debrief.score}<span className="text-sm text-slate-500">/10</span></span>
+                  )}
+                </div>
+                <div className="bg-emerald-500/5 border border-emerald-500/30 p-10 rounded-[2.5rem] shadow-2xl">
+                  <div className="text-base leading-relaxed text-slate-200 whitespace-pre-wrap">
+                    {currentSession?.debrief?.text ?? displayAiText}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {prepMatch && (
+              <div className="animate-in slide-in-from-bottom-8 duration-500">
+                <div className="flex items-center justify-between mb-6">
+                  <div className="flex items-center space-x-3">
+                    <div className="w-2 h-2 rounded-full bg-emerald-500 shadow-[0_0_10px_rgba(16,185,129,0.5)]"></div>
+                    <h2 className="text-[10px] font-black text-emerald-400 uppercase tracking-widest">
+                      Prepared Answer · {Math.round(prepMatch.confidence * 100)}% Match
+                    </h2>
+                  </div>
+                  <button
+                    onClick={() => setContextTab('prep')}
+                    className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-300"
+                  >
+                    Edit in Prep
+                  </button>
+                </div>
+                <div className="bg-emerald-500/5 border border-emerald-500/30 p-8 rounded-[2.5rem] shadow-2xl space-y-3">
+                  <div className="text-[11px] font-bold text-slate-500">{prepMatch.item.question}</div>
+                  <MarkdownView text={prepMatch.item.answer} className="text-base leading-relaxed text-emerald-50" />
+                </div>
+              </div>
+            )}
+
+            {!isMock && suggestionText && (
               <div className="animate-in slide-in-from-bottom-8 duration-500">
                 <div className="flex items-center space-x-3 mb-6">
                   <div className="w-2 h-2 rounded-full bg-indigo-500 shadow-[0_0_10px_rgba(99,102,241,0.5)]"></div>
-                  <h2 className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">Active Suggestion</h2>
+                  <h2 className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">
+                    {displayAiText || !refining ? 'Active Suggestion' : `Refining · ${REFINEMENT_LABELS[refining.kind]}`}
+                  </h2>
                 </div>
                 <div className="bg-indigo-600/10 border border-indigo-500/30 p-10 rounded-[2.5rem] shadow-2xl relative group ring-4 ring-indigo-500/5">
                    <div className="absolute -top-4 -right-4 w-12 h-12 bg-indigo-600 rounded-2xl flex items-center justify-center shadow-lg shadow-indigo-900/40">
                       <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9l-.707.707M12 18c-4.418 0-8-3.582-8-8s3.582-8 8-8 8 3.582 8 8-3.582 8-8 8z" /></svg>
                    </div>
                    <button 
-                      onClick={() => handleSpeakText(displayAiText)}
+                      onClick={() => handleSpeakText(suggestionText)}
                       className="absolute bottom-4 right-4 p-2 rounded-xl bg-indigo-500/20 text-indigo-400 opacity-0 group-hover:opacity-100 transition-all hover:bg-indigo-500 hover:text-white"
                     >
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
                     </button>
-                   <div className="text-xl md:text-2xl font-medium leading-relaxed text-indigo-50 whitespace-pre-wrap">
-                     {displayAiText}
-                   </div>
+                   <MarkdownView text={suggestionText} className="text-xl md:text-2xl font-medium leading-relaxed text-indigo-50" />
+                   {selectedTurn && (
+                     <AnswerVersions
+                       turn={selectedTurn}
+                       refining={refining?.turnId === selectedTurn.id ? refining.kind : null}
+                       canRefine={refining === null && selectedTurn.aiSuggested.trim() !== ''}
+                       onRefine={(kind) => handleRefine(selectedTurn, kind)}
+                       onChoose={(versionId) => handleChooseVersion(selectedTurn, versionId)}
+                     />
+                   )}
                 </div>
               </div>
             )}
@@ -491,50 +1527,201 @@ RESUME_USAGE: ["snippet 1", "snippet 2"]
             {history.length > 0 && (
               <div className="pt-12 border-t border-slate-800 space-y-8">
                 <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest text-center">Previous Turns</h3>
+                {Object.keys(typeCounts).length > 1 && (
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {(['all', ...QUESTION_TYPES.filter(t => typeCounts[t])] as (QuestionType | 'all')[]).map(type => (
+                      <button
+                        key={type}
+                        onClick={() => setHistoryFilter(type)}
+                        className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${historyFilter === type ? 'bg-indigo-600 text-white' : 'bg-slate-900 text-slate-500 hover:text-slate-300'}`}
+                      >
+                        {type === 'all' ? `All ${history.length}` : `${QUESTION_TYPE_LABELS[type]} ${typeCounts[type]}`}
+                      </button>
+                    ))}
+                  </div>
+                )}
                 <div className="flex flex-col-reverse space-y-8 space-y-reverse">
-                  {history.map((turn) => (
+                  {visibleHistory.map((turn) => (
                     <div 
                       key={turn.id} 
-                      onClick={() => selectHistoryItem(turn)}
+                      onClick={() => handleTurnClick(turn)}
                       className={`cursor-pointer bg-slate-900/30 border rounded-3xl p-6 transition-all group ${selectedTurnId === turn.id ? 'border-indigo-500 bg-indigo-500/5' : 'border-slate-800 hover:border-slate-700'}`}
                     >
                       <div className="flex items-center justify-between mb-4">
-                        <span className="text-[8px] font-bold text-slate-600 uppercase tracking-widest">{new Date(turn.timestamp).toLocaleTimeString()}</span>
+                        <span className="text-[8px] font-bold text-slate-600 uppercase tracking-widest">
+                          {new Date(turn.timestamp).toLocaleTimeString()}
+                          {turn.role === 'practice' && <span className="ml-2 text-amber-500">Practice</span>}
+                          {turn.isOffline && <span className="ml-2 text-slate-400">Offline</span>}
+                          {turn.questionType && <span className="ml-2 text-indigo-400">{QUESTION_TYPE_LABELS[turn.questionType]}</span>}
+                        </span>
                         <div className="flex items-center space-x-2">
-                           <button onClick={(e) => { e.stopPropagation(); handleSpeakText(turn.aiSuggested); }} className="text-slate-500 hover:text-indigo-400 p-1">
+                          {turn.audioRange && currentSession?.recording && (
+                            <button
+                              disabled={isActive}
+                              onClick={(e) => { e.stopPropagation(); if (playingTurnId === turn.id) stopTurnAudio(); else handleTurnClick(turn); }}
+                              title="Play the question audio the model heard"
+                              className={`px-2 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest disabled:opacity-20 ${playingTurnId === turn.id ? 'text-indigo-400' : 'text-slate-500 hover:text-indigo-400'}`}
+                            >
+                              {playingTurnId === turn.id ? 'Stop Audio' : 'Question Audio'}
+                            </button>
+                          )}
+                          {rehearsal?.turnId === turn.id ? (
+                            <button
+                              onClick={(e) => { e.stopPropagation(); finishRehearsal(); }}
+                              className="flex items-center space-x-1.5 px-2 py-1 rounded-lg bg-rose-600 text-white text-[8px] font-black uppercase tracking-widest"
+                            >
+                              <span className="w-1.5 h-1.5 rounded-full bg-white animate-pulse"></span>
+                              <span>Stop & Score</span>
+                            </button>
+                          ) : (
+                            <button
+                              disabled={isActive || rehearsal !== null}
+                              onClick={(e) => { e.stopPropagation(); startRehearsal(turn); }}
+                              className="px-2 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-400 disabled:opacity-20"
+                            >
+                              Rehearse
+                            </button>
+                          )}
+                           <button onClick={(e) => { e.stopPropagation(); handleSpeakText(turn.role === 'practice' ? turn.interviewer : turn.aiSuggested); }} className="text-slate-500 hover:text-indigo-400 p-1">
                             <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
                           </button>
                         </div>
                       </div>
                       <p className="text-xs text-slate-500 italic mb-4 line-clamp-1 group-hover:line-clamp-none transition-all">"{turn.interviewer}"</p>
-                      <div className="text-sm text-slate-300 leading-relaxed whitespace-pre-wrap">
-                        {turn.aiSuggested}
-                      </div>
+                      {turn.role === 'practice' ? (
+                        <div className="space-y-1">
+                          <div className="text-[8px] font-black text-slate-600 uppercase tracking-widest">Your Answer</div>
+                          <div className="text-sm text-slate-300 leading-relaxed whitespace-pre-wrap">{turn.candidateAnswer}</div>
+                        </div>
+                      ) : (
+                        <>
+                          <MarkdownView text={turn.aiSuggested} className="text-sm text-slate-300 leading-relaxed" />
+                          <CitationList
+                            refs={turn.usedSegments || []}
+                            chunks={citableChunks}
+                            onJump={(chunkId) => { selectHistoryItem(turn); jumpToChunk(chunkId); }}
+                          />
+                          <AnswerVersions
+                            turn={turn}
+                            refining={refining?.turnId === turn.id ? refining.kind : null}
+                            canRefine={refining === null && turn.aiSuggested.trim() !== ''}
+                            onRefine={(kind) => handleRefine(turn, kind)}
+                            onChoose={(versionId) => handleChooseVersion(turn, versionId)}
+                          />
+                          {turn.candidateAnswer && (
+                            <div className="mt-4 pt-4 border-t border-slate-800/60 space-y-1">
+                              <div className="text-[8px] font-black text-emerald-500 uppercase tracking-widest">You Said</div>
+                              <div className="text-xs text-slate-400 leading-relaxed whitespace-pre-wrap">{turn.candidateAnswer}</div>
+                            </div>
+                          )}
+                        </>
+                      )}
+                      {rehearsal?.turnId === turn.id && (
+                        <p className="mt-4 pt-4 border-t border-slate-800/60 text-[11px] text-rose-300 italic">
+                          {rehearsal.transcript || 'Recording... answer out loud, then press Stop & Score.'}
+                        </p>
+                      )}
+                      <RehearsalScoreCard attempts={turn.rehearsals || []} />
                     </div>
                   ))}
                 </div>
               </div>
             )}
+            <TranscriptView entries={currentSession?.transcript || []} />
             <div ref={transcriptEndRef} />
           </div>
         </section>
 
-        {/* RIGHT COLUMN: RESUME */}
+        {/* RIGHT COLUMN: RESUME & JOB CONTEXT */}
         <aside className="w-72 lg:w-80 flex flex-col border-l border-slate-800 bg-slate-900/20 overflow-hidden">
           <div className="flex-1 flex flex-col overflow-hidden">
             <div className="p-6 pb-2 flex items-center justify-between">
-              <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Resume Context</h3>
-              <label className="cursor-pointer text-[10px] font-black uppercase text-indigo-500 hover:text-indigo-400">
-                Update
-                <input type="file" accept=".txt,.md" onChange={handleFileUpload} className="hidden" />
-              </label>
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                {(['resume', 'job', 'notes', 'prep', 'prompts', 'model', 'privacy'] as const).map(tab => (
+                  <button
+                    key={tab}
+                    onClick={() => setContextTab(tab)}
+                    className={`text-[10px] font-black uppercase tracking-widest transition-colors ${contextTab === tab ? 'text-slate-200' : 'text-slate-600 hover:text-slate-400'}`}
+                  >
+                    {{ resume: 'Resume', job: 'Job', notes: 'Notes', prep: 'Prep', prompts: 'Prompts', model: 'Model', privacy: 'Privacy' }[tab]}
+                  </button>
+                ))}
+                {((contextTab === 'resume' && reviewResume !== null) || (contextTab === 'job' && reviewJobContext !== null)) && (
+                  <span className="text-[8px] font-black text-amber-500 uppercase tracking-widest">Snapshot</span>
+                )}
+              </div>
+              {contextTab === 'resume' && (
+                <label className="cursor-pointer text-[10px] font-black uppercase text-indigo-500 hover:text-indigo-400">
+                  {isParsingResume ? 'Reading...' : 'Update'}
+                  <input type="file" accept={RESUME_FILE_ACCEPT} disabled={isParsingResume} onChange={handleFileUpload} className="hidden" />
+                </label>
+              )}
             </div>
             <div className="flex-1 p-6 overflow-hidden">
               <div className="h-full bg-slate-950/50 border border-slate-800 rounded-2xl p-4 overflow-y-auto no-scrollbar font-mono text-[10px] text-slate-500 leading-relaxed group">
-                {resume ? (
-                  <div className="whitespace-pre-wrap">
-                    {highlightedResume}
+                {contextTab === 'privacy' ? (
+                  <PrivacyPanel
+                    settings={redaction}
+                    onChange={(next) => updateActiveProfile({ redaction: next })}
+                    resume={resume}
+                    onPreview={() => setIsRedactionPreviewOpen(true)}
+                    isActive={isActive}
+                  />
+                ) : contextTab === 'prep' ? (
+                  <PrepPackPanel
+                    pack={prepPack}
+                    onChange={(next) => updateActiveProfile({ prepPack: next })}
+                    onGenerate={handleGeneratePrepPack}
+                    onAnswer={handleAnswerPrepItem}
+                    onCancel={handleCancelPrepPack}
+                    progress={prepProgress}
+                    isStale={isPrepPackStale(prepPack, resume)}
+                    matchedItemId={prepMatch?.item.id}
+                  />
+                ) : contextTab === 'model' ? (
+                  <ModelSettingsPanel
+                    settings={modelSettings}
+                    onChange={(next) => updateActiveProfile({ modelSettings: next })}
+                    isActive={isActive}
+                  />
+                ) : contextTab === 'prompts' ? (
+                  <PromptTemplateEditor
+                    templates={preferences.templates}
+                    onChange={(templates) => updateActiveProfile({ preferences: { ...preferences, templates } })}
+                  />
+                ) : contextTab === 'notes' ? (
+                  <div className="h-full flex flex-col space-y-2">
+                    <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Talking Points</label>
+                    <textarea
+                      value={preferences.talkingPoints}
+                      onChange={(e) => updateActiveProfile({ preferences: { ...preferences, talkingPoints: e.target.value } })}
+                      placeholder="Stories to steer toward, numbers to mention, tone guidance for this profile..."
+                      className="flex-1 w-full bg-transparent text-slate-300 placeholder-slate-600 resize-none focus:outline-none"
+                    />
+                    <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest pt-2 border-t border-slate-800">Mock Question Bank</label>
+                    <textarea
+                      value={preferences.questionBank}
+                      onChange={(e) => updateActiveProfile({ preferences: { ...preferences, questionBank: e.target.value } })}
+                      placeholder="One question per line. The mock interviewer also writes its own from your resume and job description."
+                      className="flex-1 w-full bg-transparent text-slate-300 placeholder-slate-600 resize-none focus:outline-none"
+                    />
                   </div>
+                ) : contextTab === 'job' ? (
+                  <JobContextPanel
+                    jobContext={shownJobContext}
+                    onChange={setJobContext}
+                    chunks={shownJobChunks}
+                    activeChunkIds={activeChunkIds}
+                    focus={focusedChunk}
+                    readOnly={reviewJobContext !== null}
+                  />
+                ) : shownResume ? (
+                  <ChunkedTextView
+                    text={shownResume}
+                    chunks={shownChunks}
+                    activeChunkIds={activeChunkIds}
+                    focus={focusedChunk}
+                  />
                 ) : (
                   <div className="h-full flex flex-col items-center justify-center text-center p-4 space-y-4">
                      <svg className="w-8 h-8 text-slate-800" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
@@ -548,6 +1735,42 @@ RESUME_USAGE: ["snippet 1", "snippet 2"]
 
       </main>
 
+      {resumeDraft && (
+        <ResumeReviewDialog
+          fileName={resumeDraft.fileName}
+          initialSections={resumeDraft.sections}
+          onApply={applyResumeDraft}
+          onCancel={() => setResumeDraft(null)}
+        />
+      )}
+
+      {isReportOpen && currentSession && (
+        <SessionReportDialog
+          session={{ ...currentSession, turns: history }}
+          sessions={profileSessions}
+          onClose={() => setIsReportOpen(false)}
+        />
+      )}
+
+      {isRedactionPreviewOpen && (
+        <RedactionPreviewDialog
+          source={mode === 'mock'
+            ? buildMockInterviewInstruction({ resume, jobContext, questionBank: preferences.questionBank })
+            : buildSystemInstruction({ resume, jobContext, preferences, answerLength: modelSettings.answerLength })}
+          resume={resume}
+          settings={redaction}
+          onClose={() => setIsRedactionPreviewOpen(false)}
+        />
+      )}
+
+      {importWarnings && (
+        <ImportWarnings
+          title={importWarnings.title}
+          warnings={importWarnings.warnings}
+          onClose={() => setImportWarnings(null)}
+        />
+      )}
+
       {/* Global Error Notifications */}
       {error && (
         <div className="absolute bottom-10 left-1/2 -translate-x-1/2 z-[100] w-full max-w-lg px-6">
@@ -573,7 +1796,9 @@ RESUME_USAGE: ["snippet 1", "snippet 2"]
         <div className="flex items-center space-x-6">
           <div className="flex items-center space-x-2">
             <span className="text-slate-600">Active Path:</span>
-            <span className={audioSource === 'microphone' ? 'text-emerald-500' : 'text-indigo-400'}>{audioSource === 'microphone' ? 'Mic (No Dialog)' : 'System Capture'}</span>
+            <span className={audioSource === 'microphone' ? 'text-emerald-500' : 'text-indigo-400'}>
+              {audioSource === 'microphone' ? 'Mic (No Dialog)' : audioSource === 'dual' ? 'Tab to AI · Mic Local' : 'System Capture'}
+            </span>
           </div>
           <span className="text-slate-800">|</span>
           <div className="flex items-center space-x-2">
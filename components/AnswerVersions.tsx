@@ -0,0 +1,80 @@
+import React, { useMemo, useState } from 'react';
+import { RefinementKind, Turn } from '../types';
+import { REFINEMENT_KINDS, REFINEMENT_LABELS, getChosenVersion, getVersions, versionLabel } from '../utils/refinement';
+import { diffWords } from '../utils/textDiff';
+
+interface AnswerVersionsProps {
+  turn: Turn;
+  // The refinement being generated for this turn, if any.
+  refining: RefinementKind | null;
+  canRefine: boolean;
+  onRefine: (kind: RefinementKind) => void;
+  onChoose: (versionId: string) => void;
+}
+
+const diffClasses = {
+  same: 'text-slate-400',
+  added: 'bg-emerald-500/15 text-emerald-300',
+  removed: 'bg-rose-500/10 text-rose-400 line-through',
+};
+
+const AnswerVersions: React.FC<AnswerVersionsProps> = ({ turn, refining, canRefine, onRefine, onChoose }) => {
+  const [showDiff, setShowDiff] = useState(false);
+  const versions = getVersions(turn);
+  const chosen = getChosenVersion(turn);
+  const base = versions.find(v => v.id === chosen.basedOn);
+  const diff = useMemo(() => (showDiff && base ? diffWords(base.text, chosen.text) : []), [showDiff, base, chosen]);
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-800/60 space-y-3" onClick={(e) => e.stopPropagation()}>
+      {versions.length > 1 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {versions.map(v => (
+            <button
+              key={v.id}
+              onClick={() => onChoose(v.id)}
+              className={`px-2 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all ${v.id === chosen.id ? 'bg-indigo-600 text-white' : 'bg-slate-800/60 text-slate-500 hover:text-slate-300'}`}
+            >
+              {versionLabel(turn, v)}
+            </button>
+          ))}
+          {base && (
+            <button
+              onClick={() => setShowDiff(!showDiff)}
+              className={`px-2 py-1 text-[8px] font-black uppercase tracking-widest ${showDiff ? 'text-indigo-400' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {showDiff ? 'Hide Changes' : 'Show Changes'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {showDiff && base && (
+        <div className="bg-black/20 border border-slate-800/50 rounded-xl p-4 space-y-2">
+          <div className="text-[8px] font-black text-slate-500 uppercase tracking-widest">
+            Changes from {versionLabel(turn, base)}
+          </div>
+          <div className="text-xs leading-relaxed whitespace-pre-wrap">
+            {diff.map((part, i) => <span key={i} className={diffClasses[part.type]}>{part.text}</span>)}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-[8px] font-black text-slate-600 uppercase tracking-widest mr-1">Refine</span>
+        {REFINEMENT_KINDS.map(kind => (
+          <button
+            key={kind}
+            disabled={!canRefine}
+            onClick={() => onRefine(kind)}
+            className={`px-2 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all disabled:opacity-30 ${refining === kind ? 'bg-indigo-500/20 text-indigo-300 animate-pulse' : 'text-slate-500 hover:text-indigo-400'}`}
+          >
+            {REFINEMENT_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AnswerVersions;
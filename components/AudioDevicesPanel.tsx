@@ -0,0 +1,118 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AudioDeviceList, AudioDeviceSettings, isOutputSelectionSupported, listAudioDevices } from '../utils/audioDevices';
+import { PREFLIGHT_DURATION_MS, PreflightRecording, playPreflight, recordPreflight } from '../utils/preflight';
+import { createLevelStore } from '../state/levelStore';
+import LevelMeter from './LevelMeter';
+
+interface AudioDevicesPanelProps {
+  settings: AudioDeviceSettings;
+  onChange: (settings: AudioDeviceSettings) => void;
+  isActive: boolean;
+}
+
+type TestPhase = 'idle' | 'recording' | 'playing';
+
+const VERDICT_STYLES: Record<PreflightRecording['verdict'], string> = {
+  ok: 'text-emerald-400',
+  quiet: 'text-amber-400',
+  clipping: 'text-amber-400',
+  silent: 'text-red-400',
+};
+
+const selectClass = 'w-full bg-black/30 border border-slate-800 rounded-lg px-2 py-1.5 text-[10px] text-slate-300 focus:outline-none focus:border-indigo-500 disabled:opacity-50';
+
+const deviceName = (device: MediaDeviceInfo, i: number, kind: string) => device.label || `${kind} ${i + 1}`;
+
+const AudioDevicesPanel: React.FC<AudioDevicesPanelProps> = ({ settings, onChange, isActive }) => {
+  const [devices, setDevices] = useState<AudioDeviceList>({ inputs: [], outputs: [] });
+  const [testLevelStore] = useState(createLevelStore);
+  const [phase, setPhase] = useState<TestPhase>('idle');
+  const [result, setResult] = useState<PreflightRecording | null>(null);
+  const [testError, setTestError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    listAudioDevices().then(setDevices).catch(() => setDevices({ inputs: [], outputs: [] }));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  const update = (patch: Partial<AudioDeviceSettings>) => {
+    setResult(null);
+    onChange({ ...settings, ...patch });
+  };
+
+  const runTest = async () => {
+    setTestError(null);
+    setResult(null);
+    setPhase('recording');
+    try {
+      const recording = await recordPreflight(settings.inputId, testLevelStore.setLevel);
+      setResult(recording);
+      // Permission was just granted, so device labels are now available.
+      refresh();
+      setPhase('playing');
+      await playPreflight(recording.samples, settings.outputId);
+    } catch (e: any) {
+      setTestError(e.name === 'NotAllowedError' ? 'Microphone permission denied.' : e.message || 'Audio test failed.');
+    } finally {
+      setPhase('idle');
+    }
+  };
+
+  const isBusy = isActive || phase !== 'idle';
+  const savedInputMissing = settings.inputId !== '' && devices.inputs.length > 0 && !devices.inputs.some(d => d.deviceId === settings.inputId);
+
+  return (
+    <div className="bg-slate-900/40 border border-slate-800 rounded-2xl p-4 space-y-3">
+      <h4 className="text-[9px] font-black text-slate-500 uppercase">Audio Devices</h4>
+
+      <label className="block space-y-1">
+        <span className="text-[8px] text-slate-500 uppercase tracking-widest">Microphone</span>
+        <select value={settings.inputId} disabled={isBusy} onChange={(e) => update({ inputId: e.target.value })} className={selectClass}>
+          <option value="">System default</option>
+          {devices.inputs.filter(d => d.deviceId && d.deviceId !== 'default').map((d, i) => (
+            <option key={d.deviceId} value={d.deviceId}>{deviceName(d, i, 'Microphone')}</option>
+          ))}
+          {savedInputMissing && <option value={settings.inputId}>Saved mic (not connected)</option>}
+        </select>
+      </label>
+
+      {isOutputSelectionSupported() && (
+        <label className="block space-y-1">
+          <span className="text-[8px] text-slate-500 uppercase tracking-widest">Speaker</span>
+          <select value={settings.outputId} disabled={isBusy} onChange={(e) => update({ outputId: e.target.value })} className={selectClass}>
+            <option value="">System default</option>
+            {devices.outputs.filter(d => d.deviceId && d.deviceId !== 'default').map((d, i) => (
+              <option key={d.deviceId} value={d.deviceId}>{deviceName(d, i, 'Speaker')}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {phase === 'recording' && <LevelMeter store={testLevelStore} label="Test Level" isActive />}
+
+      <button
+        onClick={runTest}
+        disabled={isBusy}
+        className="w-full py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-[9px] font-black uppercase tracking-widest text-slate-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+      >
+        {phase === 'recording' ? `Speak now… (${PREFLIGHT_DURATION_MS / 1000}s)` : phase === 'playing' ? 'Playing back…' : 'Test Mic'}
+      </button>
+
+      {result && (
+        <div className="text-[9px] leading-snug space-y-0.5">
+          <div className={`font-black uppercase tracking-widest ${VERDICT_STYLES[result.verdict]}`}>{result.verdict === 'ok' ? 'Ready' : result.verdict}</div>
+          <div className="text-slate-400">{result.message}</div>
+          <div className="text-slate-600">Peak {Math.round(result.peakWindowDb)} dB · {(result.clippedRatio * 100).toFixed(2)}% clipped</div>
+        </div>
+      )}
+      {testError && <div className="text-[9px] text-red-400 leading-snug">{testError}</div>}
+    </div>
+  );
+};
+
+export default AudioDevicesPanel;
@@ -0,0 +1,54 @@
+import React, { useEffect, useRef } from 'react';
+import { ContextChunk } from '../types';
+
+interface ChunkedTextViewProps {
+  text: string;
+  chunks: ContextChunk[];
+  activeChunkIds: string[];
+  focus: { id: string; nonce: number } | null;
+  tone?: 'indigo' | 'emerald';
+}
+
+const ACTIVE_CLASSES = {
+  indigo: 'bg-indigo-500/30 text-indigo-100 shadow-[0_0_8px_rgba(99,102,241,0.3)]',
+  emerald: 'bg-emerald-500/20 text-emerald-100 shadow-[0_0_8px_rgba(16,185,129,0.3)]',
+};
+
+const ChunkedTextView: React.FC<ChunkedTextViewProps> = ({ text, chunks, activeChunkIds, focus, tone = 'indigo' }) => {
+  const chunkRefs = useRef(new Map<string, HTMLSpanElement>());
+
+  useEffect(() => {
+    if (!focus) return;
+    const el = chunkRefs.current.get(focus.id);
+    if (!el) return;
+    el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    el.classList.add('ring-2', 'ring-indigo-400');
+    const timer = setTimeout(() => el.classList.remove('ring-2', 'ring-indigo-400'), 1200);
+    return () => clearTimeout(timer);
+  }, [focus]);
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const chunk of chunks) {
+    if (chunk.start > cursor) parts.push(text.slice(cursor, chunk.start));
+    const isActive = activeChunkIds.includes(chunk.id);
+    parts.push(
+      <span
+        key={chunk.id}
+        ref={(el) => {
+          if (el) chunkRefs.current.set(chunk.id, el);
+          else chunkRefs.current.delete(chunk.id);
+        }}
+        className={`rounded px-0.5 transition-all ${isActive ? ACTIVE_CLASSES[tone] : ''}`}
+      >
+        {text.slice(chunk.start, chunk.end)}
+      </span>
+    );
+    cursor = chunk.end;
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <div className="whitespace-pre-wrap">{parts}</div>;
+};
+
+export default ChunkedTextView;
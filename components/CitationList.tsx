@@ -0,0 +1,53 @@
+import React from 'react';
+import { ContextChunk } from '../types';
+import { resolveCitations } from '../utils/citations';
+import { isJobChunkId } from '../utils/jobContext';
+
+interface CitationListProps {
+  refs: string[];
+  chunks: ContextChunk[];
+  onJump: (chunkId: string) => void;
+}
+
+const chipClasses = {
+  resume: 'bg-indigo-500/10 border-indigo-500/20 text-indigo-300 hover:bg-indigo-500/20 hover:text-indigo-100',
+  job: 'bg-emerald-500/10 border-emerald-500/20 text-emerald-300 hover:bg-emerald-500/20 hover:text-emerald-100',
+};
+
+const CitationList: React.FC<CitationListProps> = ({ refs, chunks, onJump }) => {
+  if (refs.length === 0) return null;
+  const { chunks: cited, invalid } = resolveCitations(refs, chunks);
+  const groups = [
+    { kind: 'resume' as const, label: 'Resume Evidence', items: cited.filter(c => !isJobChunkId(c.id)) },
+    { kind: 'job' as const, label: 'Requirements Addressed', items: cited.filter(c => isJobChunkId(c.id)) },
+  ].filter(g => g.items.length > 0);
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-800/60 space-y-3">
+      {invalid.length > 0 && (
+        <div title={invalid.join('\n')} className="text-[8px] font-black text-amber-500 uppercase tracking-widest">
+          {invalid.length} invalid citation{invalid.length === 1 ? '' : 's'}
+        </div>
+      )}
+      {groups.map(group => (
+        <div key={group.kind} className="space-y-2">
+          <span className="text-[8px] font-black text-slate-500 uppercase tracking-widest">{group.label}</span>
+          <div className="flex flex-wrap gap-2">
+            {group.items.map(chunk => (
+              <button
+                key={chunk.id}
+                onClick={(e) => { e.stopPropagation(); onJump(chunk.id); }}
+                title={chunk.text}
+                className={`max-w-full truncate text-left text-[10px] px-2 py-1 rounded-lg border transition-all ${chipClasses[group.kind]}`}
+              >
+                {chunk.text.length > 60 ? `${chunk.text.slice(0, 59)}…` : chunk.text}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CitationList;
@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface ImportWarningsProps {
+  // What was imported, e.g. 'Session "Mock interview"'.
+  title: string;
+  // Records that were repaired or dropped while importing.
+  warnings: string[];
+  onClose: () => void;
+}
+
+// Shown after an import that succeeded only after repairs, so the user knows
+// which turns, metrics or transcript entries didn't make it.
+const ImportWarnings: React.FC<ImportWarningsProps> = ({ title, warnings, onClose }) => (
+  <div className="absolute top-20 right-8 z-[95] w-full max-w-md">
+    <div className="bg-slate-900 border border-amber-500/40 rounded-[2rem] shadow-2xl p-6 space-y-3">
+      <div className="flex items-start justify-between space-x-4">
+        <div>
+          <h2 className="text-[10px] font-black text-amber-400 uppercase tracking-widest">Imported With Repairs</h2>
+          <p className="text-[11px] text-slate-400 mt-1">
+            {title} was imported, but {warnings.length} {warnings.length === 1 ? 'problem was' : 'problems were'} fixed or left out:
+          </p>
+        </div>
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-300">
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+      <ul className="max-h-48 overflow-y-auto no-scrollbar space-y-1 text-[10px] text-slate-500 list-disc pl-4">
+        {warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+      </ul>
+    </div>
+  </div>
+);
+
+export default ImportWarnings;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { ContextChunk, JobContext } from '../types';
+import { hasJobContext } from '../utils/jobContext';
+import ChunkedTextView from './ChunkedTextView';
+
+interface JobContextPanelProps {
+  jobContext: JobContext;
+  onChange: (context: JobContext) => void;
+  chunks: ContextChunk[];
+  activeChunkIds: string[];
+  focus: { id: string; nonce: number } | null;
+  readOnly: boolean;
+}
+
+const FIELDS: { key: keyof JobContext; label: string; placeholder: string; rows: number }[] = [
+  { key: 'jobDescription', label: 'Job Description', placeholder: 'Paste the job posting. Requirements become citable.', rows: 10 },
+  { key: 'companyNotes', label: 'Company Notes', placeholder: 'Product, team, values, recent news...', rows: 4 },
+  { key: 'interviewers', label: 'Interviewers', placeholder: 'Names and roles, one per line', rows: 3 },
+];
+
+const JobContextPanel: React.FC<JobContextPanelProps> = ({ jobContext, onChange, chunks, activeChunkIds, focus, readOnly }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const editing = isEditing && !readOnly;
+
+  if (!editing && !hasJobContext(jobContext)) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-center p-4 space-y-4">
+        <p className="font-bold">No job context. Answers won't be tailored to the role.</p>
+        {!readOnly && (
+          <button onClick={() => setIsEditing(true)} className="text-[10px] font-black uppercase text-indigo-500 hover:text-indigo-400">
+            Add Job Description
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {!readOnly && (
+        <div className="flex justify-end">
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            className="text-[9px] font-black uppercase text-indigo-500 hover:text-indigo-400"
+          >
+            {editing ? 'Done' : 'Edit'}
+          </button>
+        </div>
+      )}
+      {FIELDS.map(({ key, label, placeholder, rows }) => (
+        <div key={key} className="space-y-1">
+          <div className="text-[8px] font-black text-slate-600 uppercase tracking-widest">{label}</div>
+          {editing ? (
+            <textarea
+              rows={rows}
+              value={jobContext[key]}
+              placeholder={placeholder}
+              onChange={(e) => onChange({ ...jobContext, [key]: e.target.value })}
+              className="w-full bg-black/20 border border-slate-800 rounded-lg p-2 text-[10px] text-slate-300 placeholder-slate-700 focus:outline-none focus:border-indigo-500/50 resize-none"
+            />
+          ) : key === 'jobDescription' ? (
+            <ChunkedTextView text={jobContext.jobDescription} chunks={chunks} activeChunkIds={activeChunkIds} focus={focus} tone="emerald" />
+          ) : (
+            <div className="whitespace-pre-wrap">{jobContext[key] || '—'}</div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default JobContextPanel;
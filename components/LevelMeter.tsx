@@ -0,0 +1,38 @@
+import React from 'react';
+import { LevelStore, useLevel } from '../state/levelStore';
+import { MIN_LEVEL_DB } from '../utils/vad';
+
+interface LevelMeterProps {
+  store: LevelStore;
+  label?: string;
+  // Marks the speech threshold on the meter in hands-free mode.
+  thresholdDb?: number;
+  isActive: boolean;
+}
+
+const toPercent = (db: number) => Math.max(0, Math.min(100, ((db - MIN_LEVEL_DB) / -MIN_LEVEL_DB) * 100));
+
+const LevelMeter: React.FC<LevelMeterProps> = ({ store, label = 'Input Level', thresholdDb, isActive }) => {
+  const level = useLevel(store);
+  const isAbove = thresholdDb !== undefined && level >= thresholdDb;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-[8px] text-slate-500 uppercase tracking-widest">
+        <span>{label}</span>
+        <span>{isActive ? `${Math.round(level)} dB` : '—'}</span>
+      </div>
+      <div className="relative h-2 rounded-full bg-black/40 border border-slate-800/50 overflow-hidden">
+        <div
+          className={`h-full transition-[width] duration-75 ${isAbove ? 'bg-emerald-500' : 'bg-indigo-500/70'}`}
+          style={{ width: `${isActive ? toPercent(level) : 0}%` }}
+        />
+        {thresholdDb !== undefined && (
+          <div className="absolute top-0 bottom-0 w-0.5 bg-amber-400" style={{ left: `${toPercent(thresholdDb)}%` }} />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LevelMeter;
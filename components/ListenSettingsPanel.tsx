@@ -0,0 +1,92 @@
+import React from 'react';
+import { ListenMode, ListenSettings, MIN_LEVEL_DB } from '../utils/vad';
+import { LevelStore } from '../state/levelStore';
+import LevelMeter from './LevelMeter';
+
+interface ListenSettingsPanelProps {
+  settings: ListenSettings;
+  onChange: (settings: ListenSettings) => void;
+  levelStore: LevelStore;
+  // Second meter for the candidate's mic in dual capture.
+  candidateLevelStore?: LevelStore;
+  isActive: boolean;
+}
+
+const sliderClass = 'w-full accent-indigo-500';
+
+const ListenSettingsPanel: React.FC<ListenSettingsPanelProps> = ({ settings, onChange, levelStore, candidateLevelStore, isActive }) => {
+  const update = (patch: Partial<ListenSettings>) => onChange({ ...settings, ...patch });
+  const isAuto = settings.mode === 'auto';
+
+  return (
+    <div className="bg-slate-900/40 border border-slate-800 rounded-2xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-[9px] font-black text-slate-500 uppercase">Listening</h4>
+        <div className="bg-black/20 rounded-lg p-0.5 border border-slate-800/50 flex">
+          {(['manual', 'auto'] as ListenMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => update({ mode })}
+              className={`px-2 py-1 rounded-md text-[8px] font-black uppercase tracking-widest transition-all ${settings.mode === mode ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {mode === 'manual' ? 'Manual' : 'Hands-free'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <LevelMeter
+        store={levelStore}
+        label={candidateLevelStore ? 'Interviewer (Tab)' : undefined}
+        thresholdDb={isAuto ? settings.thresholdDb : undefined}
+        isActive={isActive}
+      />
+      {candidateLevelStore && (
+        <LevelMeter store={candidateLevelStore} label="You (Mic, Not Sent to Model)" isActive={isActive} />
+      )}
+
+      {isAuto && (
+        <div className="space-y-2">
+          <label className="block space-y-1">
+            <div className="flex justify-between text-[8px] text-slate-500 uppercase tracking-widest">
+              <span>Speech Threshold</span><span>{settings.thresholdDb} dB</span>
+            </div>
+            <input
+              type="range" min={MIN_LEVEL_DB} max={-10} step={1}
+              value={settings.thresholdDb}
+              onChange={(e) => update({ thresholdDb: Number(e.target.value) })}
+              className={sliderClass}
+            />
+          </label>
+          <label className="block space-y-1">
+            <div className="flex justify-between text-[8px] text-slate-500 uppercase tracking-widest">
+              <span>End After Silence</span><span>{(settings.silenceMs / 1000).toFixed(1)}s</span>
+            </div>
+            <input
+              type="range" min={400} max={4000} step={100}
+              value={settings.silenceMs}
+              onChange={(e) => update({ silenceMs: Number(e.target.value) })}
+              className={sliderClass}
+            />
+          </label>
+          <label className="block space-y-1">
+            <div className="flex justify-between text-[8px] text-slate-500 uppercase tracking-widest">
+              <span>Pre-roll</span><span>{settings.preRollMs} ms</span>
+            </div>
+            <input
+              type="range" min={0} max={1500} step={50}
+              value={settings.preRollMs}
+              onChange={(e) => update({ preRollMs: Number(e.target.value) })}
+              className={sliderClass}
+            />
+          </label>
+          <p className="text-[9px] text-slate-600 leading-snug">
+            Works best with Meet/Tab capture. With a mic, your own voice reading an answer can start a new question.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ListenSettingsPanel;
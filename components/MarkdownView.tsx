@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { InlineNode, MarkdownBlock, parseInline, parseMarkdown } from '../utils/markdown';
+import { CodeTokenType, highlightCode } from '../utils/highlight';
+
+interface MarkdownViewProps {
+  text: string;
+  className?: string;
+}
+
+const TOKEN_CLASSES: Record<CodeTokenType, string> = {
+  plain: '',
+  comment: 'text-slate-500 italic',
+  string: 'text-emerald-300',
+  number: 'text-amber-300',
+  keyword: 'text-indigo-300 font-semibold',
+  literal: 'text-rose-300',
+};
+
+const HEADING_CLASSES = ['text-[1.25em]', 'text-[1.15em]', 'text-[1.05em]', 'text-[1em]', 'text-[1em]', 'text-[1em]'];
+
+const ALIGN_CLASSES = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+const Inline: React.FC<{ nodes: InlineNode[] }> = ({ nodes }) => (
+  <>
+    {nodes.map((node, i) => {
+      switch (node.type) {
+        case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+        case 'code': return <code key={i} className="px-1.5 py-0.5 rounded bg-black/30 text-[0.85em] font-mono text-indigo-200">{node.text}</code>;
+        case 'strong': return <strong key={i} className="font-bold text-white"><Inline nodes={node.children} /></strong>;
+        case 'em': return <em key={i}><Inline nodes={node.children} /></em>;
+        case 'link':
+          return (
+            <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()} className="text-indigo-300 underline hover:text-indigo-200">
+              <Inline nodes={node.children} />
+            </a>
+          );
+      }
+    })}
+  </>
+);
+
+const InlineText: React.FC<{ text: string }> = ({ text }) => {
+  const nodes = useMemo(() => parseInline(text), [text]);
+  return <Inline nodes={nodes} />;
+};
+
+const CodeBlock: React.FC<{ lang: string; code: string; isOpen: boolean }> = ({ lang, code, isOpen }) => {
+  const [copied, setCopied] = useState(false);
+  const tokens = useMemo(() => highlightCode(code, lang), [code, lang]);
+
+  const copy = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error("Failed to copy code", err);
+    }
+  };
+
+  return (
+    <div className="my-3 rounded-xl border border-slate-800 bg-slate-950/80 overflow-hidden not-italic">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-slate-800 bg-slate-900/60">
+        <span className="text-[8px] font-black text-slate-500 uppercase tracking-widest">{lang || 'code'}{isOpen ? ' · writing…' : ''}</span>
+        <button
+          onClick={copy}
+          disabled={isOpen}
+          className="text-[8px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-400 disabled:opacity-30"
+        >
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-[13px] leading-relaxed font-mono text-slate-200">
+        <code>
+          {tokens.map((token, i) => (
+            TOKEN_CLASSES[token.type] ? <span key={i} className={TOKEN_CLASSES[token.type]}>{token.text}</span> : token.text
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+const Blocks: React.FC<{ blocks: MarkdownBlock[]; tight?: boolean }> = ({ blocks, tight }) => (
+  <>
+    {blocks.map((block, i) => {
+      switch (block.type) {
+        case 'heading':
+          return <div key={i} className={`${HEADING_CLASSES[block.level - 1]} font-bold text-white mt-4 mb-2 first:mt-0`}><InlineText text={block.text} /></div>;
+        case 'paragraph':
+          return <p key={i} className={`whitespace-pre-line ${tight ? '' : 'my-2 first:mt-0 last:mb-0'}`}><InlineText text={block.text} /></p>;
+        case 'list': {
+          const ListTag = block.ordered ? 'ol' : 'ul';
+          return (
+            <ListTag key={i} start={block.ordered ? block.start : undefined} className={`my-2 pl-6 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'} marker:text-slate-500`}>
+              {block.items.map((item, j) => <li key={j}><Blocks blocks={item} tight /></li>)}
+            </ListTag>
+          );
+        }
+        case 'code':
+          return <CodeBlock key={i} lang={block.lang} code={block.code} isOpen={block.isOpen} />;
+        case 'table':
+          return (
+            <div key={i} className="my-3 overflow-x-auto">
+              <table className="w-full text-[0.8em] border-collapse">
+                <thead>
+                  <tr className="border-b border-slate-700">
+                    {block.header.map((cell, c) => (
+                      <th key={c} className={`px-3 py-1.5 font-bold text-white ${ALIGN_CLASSES[block.align[c] ?? 'left']}`}><InlineText text={cell} /></th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {block.rows.map((row, r) => (
+                    <tr key={r} className="border-b border-slate-800/60">
+                      {row.map((cell, c) => (
+                        <td key={c} className={`px-3 py-1.5 ${ALIGN_CLASSES[block.align[c] ?? 'left']}`}><InlineText text={cell} /></td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        case 'blockquote':
+          return <blockquote key={i} className="my-2 pl-4 border-l-2 border-slate-600 text-slate-400"><Blocks blocks={block.blocks} /></blockquote>;
+        case 'rule':
+          return <hr key={i} className="my-4 border-slate-700" />;
+      }
+    })}
+  </>
+);
+
+// Renders answer Markdown as React elements; see utils/markdown for what is
+// supported. Safe to call on every streamed chunk of a partial answer.
+const MarkdownView: React.FC<MarkdownViewProps> = ({ text, className }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className={className}><Blocks blocks={blocks} /></div>;
+};
+
+export default MarkdownView;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { ModelSettings, ResponseModality } from '../types';
+import {
+  ANSWER_LENGTHS,
+  ANSWER_LENGTH_LABELS,
+  DEFAULT_MODEL_SETTINGS,
+  MAX_TEMPERATURE,
+  MIN_TEMPERATURE,
+  MODEL_OPTIONS,
+  VOICE_OPTIONS,
+  validateModelSettings,
+} from '../utils/modelSettings';
+
+interface ModelSettingsPanelProps {
+  settings: ModelSettings;
+  onChange: (settings: ModelSettings) => void;
+  isActive: boolean;
+}
+
+const labelClass = 'text-[9px] font-black text-slate-500 uppercase tracking-widest';
+const selectClass = 'w-full bg-black/30 border border-slate-800 rounded-lg px-2 py-1.5 text-[10px] text-slate-300 focus:outline-none focus:border-indigo-500 disabled:opacity-50';
+const chipClass = (selected: boolean) =>
+  `flex-1 px-2 py-1 rounded-md text-[8px] font-black uppercase tracking-widest transition-all ${selected ? 'bg-indigo-600 text-white' : 'bg-slate-800/60 text-slate-500 hover:text-slate-300'}`;
+
+const ModelSettingsPanel: React.FC<ModelSettingsPanelProps> = ({ settings, onChange, isActive }) => {
+  const update = (patch: Partial<ModelSettings>) => onChange({ ...settings, ...patch });
+  const errors = validateModelSettings(settings);
+  const isText = settings.responseModality === 'text';
+
+  return (
+    <div className="space-y-4">
+      <label className="block space-y-1">
+        <span className={labelClass}>Model</span>
+        <select value={settings.model} onChange={(e) => update({ model: e.target.value })} className={selectClass}>
+          {MODEL_OPTIONS.map(m => (
+            <option key={m.id} value={m.id}>{m.label}{m.modalities.includes('text') ? '' : ' (audio only)'}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="space-y-1">
+        <span className={labelClass}>Responses</span>
+        <div className="flex gap-1">
+          {(['audio', 'text'] as ResponseModality[]).map(modality => (
+            <button key={modality} onClick={() => update({ responseModality: modality })} className={chipClass(settings.responseModality === modality)}>
+              {modality === 'audio' ? 'Audio + Transcript' : 'Text Only'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="block space-y-1">
+        <span className={labelClass}>Voice</span>
+        <select value={settings.voiceName} disabled={isText} onChange={(e) => update({ voiceName: e.target.value })} className={selectClass}>
+          {VOICE_OPTIONS.map(v => <option key={v} value={v}>{v}</option>)}
+        </select>
+      </label>
+
+      <div className="space-y-1">
+        <span className={labelClass}>Answer Length</span>
+        <div className="flex gap-1">
+          {ANSWER_LENGTHS.map(length => (
+            <button key={length} onClick={() => update({ answerLength: length })} className={chipClass(settings.answerLength === length)}>
+              {ANSWER_LENGTH_LABELS[length]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="block space-y-1">
+        <div className="flex justify-between">
+          <span className={labelClass}>Temperature</span>
+          <span className="text-[9px] text-slate-400">{settings.temperature.toFixed(1)}</span>
+        </div>
+        <input
+          type="range" min={MIN_TEMPERATURE} max={MAX_TEMPERATURE} step={0.1}
+          value={settings.temperature}
+          onChange={(e) => update({ temperature: Number(e.target.value) })}
+          className="w-full accent-indigo-500"
+        />
+      </label>
+
+      <div className="space-y-1">
+        <span className={labelClass}>Microphone Processing</span>
+        {([['echoCancellation', 'Echo cancellation'], ['noiseSuppression', 'Noise suppression']] as const).map(([key, label]) => (
+          <label key={key} className="flex items-center space-x-2 text-[10px] text-slate-400 cursor-pointer">
+            <input type="checkbox" checked={settings[key]} onChange={(e) => update({ [key]: e.target.checked })} className="accent-indigo-500" />
+            <span>{label}</span>
+          </label>
+        ))}
+        <p className="text-[9px] text-slate-600">Tab capture is always sent unprocessed.</p>
+      </div>
+
+      <div className="pt-2 border-t border-slate-800 space-y-2">
+        {errors.map(e => <div key={e} className="text-[9px] text-red-400">{e}</div>)}
+        {isActive && <div className="text-[9px] text-amber-500">Changes apply the next time you connect.</div>}
+        {JSON.stringify(settings) !== JSON.stringify(DEFAULT_MODEL_SETTINGS) && (
+          <button
+            onClick={() => onChange({ ...DEFAULT_MODEL_SETTINGS })}
+            className="text-[9px] font-black uppercase text-slate-500 hover:text-indigo-400"
+          >
+            Reset to Default
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettingsPanel;
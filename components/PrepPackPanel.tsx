@@ -0,0 +1,134 @@
+import React from 'react';
+import { PrepItem, PrepPack } from '../types';
+import { QUESTION_TYPE_LABELS } from '../utils/promptTemplates';
+import { classifyQuestion } from '../utils/questionClassifier';
+import { createPrepItem } from '../utils/prepPack';
+
+// What the pack generation is doing; `itemId` marks the item being answered.
+export interface PrepProgress {
+  label: string;
+  itemId?: string;
+}
+
+interface PrepPackPanelProps {
+  pack: PrepPack;
+  onChange: (pack: PrepPack) => void;
+  onGenerate: () => void;
+  onAnswer: (item: PrepItem) => void;
+  onCancel: () => void;
+  progress: PrepProgress | null;
+  isStale: boolean;
+  // The item matched to the question being asked, if any.
+  matchedItemId?: string;
+}
+
+const labelClass = 'text-[9px] font-black text-slate-500 uppercase tracking-widest';
+const actionClass = 'text-[9px] font-black uppercase tracking-widest transition-colors disabled:opacity-30';
+
+const PrepPackPanel: React.FC<PrepPackPanelProps> = ({ pack, onChange, onGenerate, onAnswer, onCancel, progress, isStale, matchedItemId }) => {
+  const editItem = (id: string, patch: Partial<Pick<PrepItem, 'question' | 'answer'>>) => {
+    onChange({
+      ...pack,
+      items: pack.items.map(item => item.id !== id ? item : {
+        ...item,
+        ...patch,
+        ...(patch.question !== undefined ? { questionType: classifyQuestion(patch.question) } : {}),
+        isEdited: true,
+        updatedAt: Date.now(),
+      }),
+    });
+  };
+
+  const removeItem = (id: string) => onChange({ ...pack, items: pack.items.filter(item => item.id !== id) });
+
+  const addItem = () => onChange({ ...pack, items: [...pack.items, { ...createPrepItem(''), isEdited: true }] });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className={labelClass}>Prep Pack</span>
+          <span className="text-[8px] text-slate-600">{pack.items.length} {pack.items.length === 1 ? 'question' : 'questions'}</span>
+        </div>
+        <p className="text-[9px] text-slate-600">
+          Likely questions with answers prepared ahead of time. When the interviewer asks one, its answer shows at once while the live answer is written.
+        </p>
+        {progress ? (
+          <div className="flex items-center justify-between">
+            <span className="text-[9px] text-indigo-400 animate-pulse">{progress.label}</span>
+            <button onClick={onCancel} className={`${actionClass} text-slate-500 hover:text-slate-300`}>Cancel</button>
+          </div>
+        ) : (
+          <button
+            onClick={onGenerate}
+            className="w-full px-3 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-[9px] font-black uppercase tracking-widest transition-all"
+          >
+            {pack.items.length > 0 ? 'Regenerate Pack' : 'Generate Pack'}
+          </button>
+        )}
+        {pack.items.length > 0 && !progress && (
+          <p className="text-[9px] text-slate-600">Regenerating keeps the questions and answers you edited.</p>
+        )}
+        {isStale && (
+          <div className="text-[9px] text-amber-500">The resume changed since this pack was generated.</div>
+        )}
+      </div>
+
+      {pack.items.map(item => (
+        <div
+          key={item.id}
+          className={`pt-3 border-t space-y-2 ${item.id === matchedItemId ? 'border-emerald-500/50' : 'border-slate-800'}`}
+        >
+          <div className="flex items-center justify-between">
+            <span className="text-[8px] font-black text-slate-600 uppercase tracking-widest">
+              {QUESTION_TYPE_LABELS[item.questionType]}{item.isEdited ? ' · Edited' : ''}
+            </span>
+            {item.id === matchedItemId && (
+              <span className="text-[8px] font-black text-emerald-400 uppercase tracking-widest">Asked Now</span>
+            )}
+          </div>
+          <textarea
+            value={item.question}
+            onChange={(e) => editItem(item.id, { question: e.target.value })}
+            placeholder="Question"
+            rows={2}
+            className="w-full bg-transparent text-slate-200 font-bold placeholder-slate-600 resize-none focus:outline-none"
+          />
+          <textarea
+            value={progress?.itemId === item.id ? '' : item.answer}
+            onChange={(e) => editItem(item.id, { answer: e.target.value })}
+            placeholder={progress?.itemId === item.id ? 'Writing answer...' : 'Answer'}
+            readOnly={progress?.itemId === item.id}
+            rows={6}
+            className="w-full bg-black/20 border border-slate-800 rounded-lg p-2 text-slate-300 placeholder-slate-600 resize-y focus:outline-none focus:border-indigo-500"
+          />
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => onAnswer(item)}
+              disabled={!!progress || !item.question.trim()}
+              className={`${actionClass} text-indigo-500 hover:text-indigo-400`}
+            >
+              {item.answer.trim() ? 'Regenerate Answer' : 'Write Answer'}
+            </button>
+            <button
+              onClick={() => removeItem(item.id)}
+              disabled={progress?.itemId === item.id}
+              className={`${actionClass} text-slate-600 hover:text-red-400`}
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={addItem}
+        className={`w-full pt-3 border-t border-slate-800 ${actionClass} text-slate-500 hover:text-slate-300`}
+      >
+        Add Question
+      </button>
+    </div>
+  );
+};
+
+export default PrepPackPanel;
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { PiiKind, RedactionSettings } from '../types';
+import { PII_KINDS, PII_LABELS, PII_PLACEHOLDERS, detectCandidateName } from '../utils/redaction';
+import { MIN_PASSPHRASE_LENGTH, isVaultEnabled, lockVault } from '../utils/vault';
+import { turnOffEncryption, turnOnEncryption, wipeAllLocalData } from '../utils/localData';
+
+interface PrivacyPanelProps {
+  settings: RedactionSettings;
+  onChange: (settings: RedactionSettings) => void;
+  // Used to guess the name when none is entered.
+  resume: string;
+  onPreview: () => void;
+  isActive: boolean;
+}
+
+const labelClass = 'text-[9px] font-black text-slate-500 uppercase tracking-widest';
+const inputClass = 'w-full bg-black/30 border border-slate-800 rounded-lg px-2 py-1.5 text-[10px] text-slate-300 placeholder-slate-600 focus:outline-none focus:border-indigo-500';
+const buttonClass = 'w-full px-3 py-2 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-30';
+
+const PrivacyPanel: React.FC<PrivacyPanelProps> = ({ settings, onChange, resume, onPreview, isActive }) => {
+  const [isEncrypted, setIsEncrypted] = useState(isVaultEnabled);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const toggleKind = (kind: PiiKind, checked: boolean) =>
+    onChange({ ...settings, kinds: PII_KINDS.filter(k => (k === kind ? checked : settings.kinds.includes(k))) });
+
+  const guessedName = detectCandidateName(resume);
+
+  const run = async (action: () => Promise<void>, done: string) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ text: done, isError: false });
+    } catch (e: any) {
+      setMessage({ text: e.message || 'Something went wrong.', isError: true });
+    } finally {
+      setIsBusy(false);
+      setIsEncrypted(isVaultEnabled());
+    }
+  };
+
+  const handleEncrypt = () => run(async () => {
+    await turnOnEncryption(passphrase);
+    setPassphrase('');
+    setConfirmation('');
+  }, 'Local data is now encrypted.');
+
+  const handleDecrypt = () => {
+    if (!window.confirm('Store profiles and sessions unencrypted in this browser again?')) return;
+    run(turnOffEncryption, 'Encryption is off.');
+  };
+
+  // Reloading drops every decrypted copy held by the page.
+  const handleLock = async () => {
+    await lockVault();
+    window.location.reload();
+  };
+
+  const handleWipe = async () => {
+    if (!window.confirm('Delete all profiles, resumes, sessions, recordings and settings stored in this browser? This cannot be undone.')) return;
+    setIsBusy(true);
+    try {
+      await wipeAllLocalData();
+      window.location.reload();
+    } catch (e: any) {
+      setMessage({ text: e.message || 'Could not delete local data.', isError: true });
+      setIsBusy(false);
+    }
+  };
+
+  const passphraseError = passphrase && passphrase.length < MIN_PASSPHRASE_LENGTH
+    ? `At least ${MIN_PASSPHRASE_LENGTH} characters.`
+    : confirmation && confirmation !== passphrase ? 'Passphrases do not match.' : null;
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2">
+        <span className={labelClass}>Mask Before Sending</span>
+        {PII_KINDS.map(kind => (
+          <label key={kind} className="flex items-center justify-between text-[10px] text-slate-400 cursor-pointer">
+            <span className="flex items-center space-x-2">
+              <input type="checkbox" checked={settings.kinds.includes(kind)} onChange={(e) => toggleKind(kind, e.target.checked)} className="accent-indigo-500" />
+              <span>{PII_LABELS[kind]}</span>
+            </span>
+            <span className="text-[8px] text-slate-600">{PII_PLACEHOLDERS[kind]}</span>
+          </label>
+        ))}
+        {settings.kinds.includes('name') && (
+          <div className="space-y-1">
+            <input
+              value={settings.name}
+              onChange={(e) => onChange({ ...settings, name: e.target.value })}
+              placeholder={guessedName ? `Your name (guessed: ${guessedName})` : 'Your name'}
+              className={inputClass}
+            />
+            {!settings.name.trim() && (
+              <p className="text-[9px] text-amber-500">
+                {guessedName
+                  ? `Masking "${guessedName}" from the resume's first line. Enter your name if that's wrong.`
+                  : 'No name found on the resume\'s first line. Enter it to have it masked.'}
+              </p>
+            )}
+          </div>
+        )}
+        <p className="text-[9px] text-slate-600">Applied to the resume, notes and questions in every request. Your saved resume is not changed.</p>
+        <button onClick={onPreview} className={`${buttonClass} bg-slate-800 hover:bg-slate-700 text-slate-300`}>
+          Preview What's Sent
+        </button>
+      </div>
+
+      <div className="pt-4 border-t border-slate-800 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className={labelClass}>Local Encryption</span>
+          <span className={`text-[8px] font-black uppercase tracking-widest ${isEncrypted ? 'text-emerald-400' : 'text-slate-600'}`}>{isEncrypted ? 'On' : 'Off'}</span>
+        </div>
+        {isEncrypted ? (
+          <>
+            <p className="text-[9px] text-slate-600">Profiles, resumes, sessions and recordings are encrypted. Reloading the page locks them.</p>
+            <button onClick={handleLock} disabled={isBusy || isActive} className={`${buttonClass} bg-indigo-600 hover:bg-indigo-500 text-white`}>
+              Lock Now
+            </button>
+            <button onClick={handleDecrypt} disabled={isBusy || isActive} className={`${buttonClass} text-slate-500 hover:text-slate-300`}>
+              {isBusy ? 'Working...' : 'Turn Off Encryption'}
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="text-[9px] text-slate-600">Encrypt profiles, resumes, sessions and recordings under a passphrase. It cannot be recovered if forgotten.</p>
+            <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Passphrase" className={inputClass} />
+            <input type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} placeholder="Repeat passphrase" className={inputClass} />
+            {passphraseError && <div className="text-[9px] text-amber-500">{passphraseError}</div>}
+            <button
+              onClick={handleEncrypt}
+              disabled={isBusy || isActive || !passphrase || passphrase !== confirmation || passphrase.length < MIN_PASSPHRASE_LENGTH}
+              className={`${buttonClass} bg-indigo-600 hover:bg-indigo-500 text-white`}
+            >
+              {isBusy ? 'Encrypting...' : 'Encrypt Local Data'}
+            </button>
+          </>
+        )}
+        {isActive && <div className="text-[9px] text-amber-500">Stop the session to change encryption.</div>}
+        {message && <div className={`text-[9px] ${message.isError ? 'text-red-400' : 'text-emerald-400'}`}>{message.text}</div>}
+      </div>
+
+      <div className="pt-4 border-t border-slate-800">
+        <button onClick={handleWipe} disabled={isBusy || isActive} className={`${buttonClass} border border-red-500/30 text-red-400 hover:bg-red-500/10`}>
+          Wipe All Local Data
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PrivacyPanel;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { CandidateProfile } from '../types';
+
+interface ProfileSwitcherProps {
+  profiles: CandidateProfile[];
+  activeProfileId: string;
+  isLocked: boolean;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onImport: (file: File) => void;
+}
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, activeProfileId, isLocked, onSwitch, onCreate, onRename, onDelete, onExport, onImport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [newName, setNewName] = useState('');
+
+  const active = profiles.find(p => p.id === activeProfileId);
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  const commitCreate = () => {
+    if (!newName.trim()) return;
+    onCreate(newName.trim());
+    setNewName('');
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        disabled={isLocked}
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-2 px-3 py-1.5 rounded-lg border border-slate-700 bg-slate-800/80 text-[10px] font-black uppercase tracking-widest text-slate-300 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+      >
+        <span className="text-slate-500">Profile:</span>
+        <span className="max-w-[10rem] truncate">{active?.name ?? '—'}</span>
+        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" /></svg>
+      </button>
+
+      {isOpen && !isLocked && (
+        <div className="absolute right-0 top-full mt-2 w-72 z-[80] bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl p-3 space-y-2">
+          <div className="max-h-64 overflow-y-auto no-scrollbar space-y-1">
+            {profiles.map(profile => (
+              <div
+                key={profile.id}
+                onClick={() => { if (editingId !== profile.id) { onSwitch(profile.id); setIsOpen(false); } }}
+                className={`group cursor-pointer px-3 py-2 rounded-lg border transition-all ${profile.id === activeProfileId ? 'border-indigo-500/60 bg-indigo-500/5' : 'border-transparent hover:border-slate-700'}`}
+              >
+                {editingId === profile.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="w-full bg-slate-950 border border-indigo-500/50 rounded px-2 py-1 text-[11px] text-slate-100 focus:outline-none"
+                  />
+                ) : (
+                  <div className="text-[11px] font-bold text-slate-200 truncate">{profile.name}</div>
+                )}
+                <div className="flex items-center space-x-2 mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onExport(profile.id); }}
+                    className="text-[8px] font-black uppercase text-slate-500 hover:text-indigo-400"
+                  >
+                    Export
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); setEditingId(profile.id); setDraftName(profile.name); }}
+                    className="text-[8px] font-black uppercase text-slate-500 hover:text-indigo-400"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    disabled={profiles.length <= 1}
+                    onClick={(e) => { e.stopPropagation(); onDelete(profile.id); }}
+                    className="text-[8px] font-black uppercase text-slate-500 hover:text-rose-400 disabled:opacity-20"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center space-x-2 pt-2 border-t border-slate-800">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') commitCreate(); }}
+              placeholder="New profile name..."
+              className="flex-1 min-w-0 bg-black/20 border border-slate-800/50 rounded-lg px-3 py-2 text-[10px] text-slate-300 placeholder-slate-600 focus:outline-none focus:border-indigo-500/50"
+            />
+            <button
+              disabled={!newName.trim()}
+              onClick={commitCreate}
+              className="text-[9px] font-black uppercase text-indigo-500 hover:text-indigo-400 disabled:opacity-30"
+            >
+              Add
+            </button>
+          </div>
+          <label className="block text-center cursor-pointer text-[9px] font-black uppercase text-indigo-500 hover:text-indigo-400">
+            Import Profile
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) { onImport(file); setIsOpen(false); }
+                e.target.value = '';
+              }}
+              className="hidden"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
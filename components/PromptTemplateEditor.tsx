@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { PromptTemplates, QuestionType } from '../types';
+import { DEFAULT_SYSTEM_TEMPLATE, DEFAULT_TYPE_TEMPLATES, QUESTION_TYPES, QUESTION_TYPE_LABELS, TEMPLATE_VARIABLES } from '../utils/promptTemplates';
+
+interface PromptTemplateEditorProps {
+  templates: PromptTemplates;
+  onChange: (templates: PromptTemplates) => void;
+}
+
+type TemplateKey = 'system' | QuestionType;
+
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ templates, onChange }) => {
+  const [selected, setSelected] = useState<TemplateKey>('system');
+
+  const value = selected === 'system' ? templates.system : templates.types[selected];
+  const defaultValue = selected === 'system' ? DEFAULT_SYSTEM_TEMPLATE : DEFAULT_TYPE_TEMPLATES[selected];
+
+  const update = (text: string) => {
+    if (selected === 'system') onChange({ ...templates, system: text });
+    else onChange({ ...templates, types: { ...templates.types, [selected]: text } });
+  };
+
+  return (
+    <div className="h-full flex flex-col space-y-3">
+      <div className="flex flex-wrap gap-1">
+        {(['system', ...QUESTION_TYPES] as TemplateKey[]).map(key => (
+          <button
+            key={key}
+            onClick={() => setSelected(key)}
+            className={`px-2 py-1 rounded-md text-[8px] font-black uppercase tracking-widest transition-all ${selected === key ? 'bg-indigo-600 text-white' : 'bg-slate-800/60 text-slate-500 hover:text-slate-300'}`}
+          >
+            {key === 'system' ? 'System' : QUESTION_TYPE_LABELS[key]}
+          </button>
+        ))}
+      </div>
+      <textarea
+        value={value}
+        onChange={(e) => update(e.target.value)}
+        className="flex-1 w-full bg-transparent text-slate-300 placeholder-slate-600 resize-none focus:outline-none"
+      />
+      <div className="pt-2 border-t border-slate-800 space-y-2">
+        {selected === 'system' ? (
+          <div className="space-y-1">
+            {TEMPLATE_VARIABLES.map(v => (
+              <div key={v.name} className="text-[9px]">
+                <span className="text-indigo-400">{`{{${v.name}}}`}</span> <span className="text-slate-600">{v.description}</span>
+              </div>
+            ))}
+            <div className="text-[9px] text-slate-600">Citation instructions are always appended.</div>
+          </div>
+        ) : (
+          <div className="space-y-1 text-[9px] text-slate-600">
+            <div>Used when a question is classified as {QUESTION_TYPE_LABELS[selected].toLowerCase()}.</div>
+            <div>
+              Analyze &amp; Answer, typed questions and prep answers restate this template for the classified type. For
+              answers the live model starts on its own, it is sent as soon as the interviewer's question is transcribed;
+              an answer already under way by then follows {'{{questionRules}}'} alone.
+            </div>
+          </div>
+        )}
+        {value !== defaultValue && (
+          <button
+            onClick={() => update(defaultValue)}
+            className="text-[9px] font-black uppercase text-slate-500 hover:text-indigo-400"
+          >
+            Reset to Default
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
@@ -0,0 +1,48 @@
+import React, { useMemo } from 'react';
+import { RedactionSettings } from '../types';
+import { PII_KINDS, PII_LABELS, getCandidateNames, redactPii, splitPlaceholders } from '../utils/redaction';
+
+interface RedactionPreviewDialogProps {
+  // The system instruction as it would be built, before masking.
+  source: string;
+  resume: string;
+  settings: RedactionSettings;
+  onClose: () => void;
+}
+
+const RedactionPreviewDialog: React.FC<RedactionPreviewDialogProps> = ({ source, resume, settings, onClose }) => {
+  const result = useMemo(() => redactPii(source, settings, getCandidateNames(settings, resume)), [source, resume, settings]);
+  const parts = useMemo(() => splitPlaceholders(result.text), [result]);
+  const masked = PII_KINDS.filter(kind => result.counts[kind] > 0);
+
+  return (
+    <div className="absolute inset-0 z-[90] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-8">
+      <div className="bg-slate-900 border border-slate-700 rounded-[2rem] shadow-2xl w-full max-w-3xl max-h-full flex flex-col overflow-hidden">
+        <div className="px-8 py-5 border-b border-slate-800 flex items-center justify-between">
+          <div>
+            <h2 className="text-sm font-black uppercase tracking-widest text-slate-100">What's Sent to the Model</h2>
+            <p className="text-[10px] text-slate-500 mt-1">
+              {masked.length > 0
+                ? `Masked: ${masked.map(kind => `${PII_LABELS[kind].toLowerCase()} ×${result.counts[kind]}`).join(', ')}`
+                : settings.kinds.length > 0 ? 'No personal details found to mask.' : 'Masking is off: the resume is sent as written.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-300">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto no-scrollbar px-8 py-6">
+          <pre className="whitespace-pre-wrap font-mono text-[10px] leading-relaxed text-slate-400">
+            {parts.map((part, i) => (
+              part.isPlaceholder
+                ? <mark key={i} className="bg-amber-500/20 text-amber-300 rounded px-0.5">{part.text}</mark>
+                : <React.Fragment key={i}>{part.text}</React.Fragment>
+            ))}
+          </pre>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RedactionPreviewDialog;
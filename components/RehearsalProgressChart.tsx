@@ -0,0 +1,40 @@
+import React from 'react';
+import { RehearsalPoint } from '../utils/rehearsal';
+
+interface RehearsalProgressChartProps {
+  points: RehearsalPoint[];
+}
+
+const WIDTH = 240;
+const HEIGHT = 64;
+
+const RehearsalProgressChart: React.FC<RehearsalProgressChartProps> = ({ points }) => {
+  if (points.length === 0) return null;
+  // Evenly spaced by attempt rather than by time, so a gap between prep days
+  // doesn't squash the rest of the line.
+  const x = (i: number) => (points.length === 1 ? WIDTH / 2 : (i / (points.length - 1)) * WIDTH);
+  const y = (score: number) => HEIGHT - (score / 100) * HEIGHT;
+  const line = points.map((p, i) => `${x(i).toFixed(1)},${y(p.overall).toFixed(1)}`).join(' ');
+  const latest = points[points.length - 1];
+  const best = Math.max(...points.map(p => p.overall));
+
+  return (
+    <div className="bg-slate-900/40 border border-slate-800 rounded-2xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-[9px] font-black text-slate-500 uppercase">Rehearsal Progress</h4>
+        <span className="text-[8px] text-slate-500 uppercase tracking-widest">Last {latest.overall} · Best {best}</span>
+      </div>
+      <svg viewBox={`-4 -4 ${WIDTH + 8} ${HEIGHT + 8}`} className="w-full h-16 overflow-visible">
+        <line x1={0} x2={WIDTH} y1={y(75)} y2={y(75)} className="stroke-slate-800" strokeDasharray="3 3" />
+        <polyline points={line} fill="none" className="stroke-indigo-500" strokeWidth={2} strokeLinejoin="round" />
+        {points.map((p, i) => (
+          <circle key={i} cx={x(i)} cy={y(p.overall)} r={2.5} className="fill-indigo-400">
+            <title>{`${p.overall} · ${new Date(p.timestamp).toLocaleDateString()} · ${p.question}`}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+export default RehearsalProgressChart;
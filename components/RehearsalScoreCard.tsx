@@ -0,0 +1,59 @@
+import React from 'react';
+import { RehearsalAttempt, RehearsalScores } from '../types';
+
+interface RehearsalScoreCardProps {
+  attempts: RehearsalAttempt[];
+}
+
+const DIMENSIONS: { key: keyof RehearsalScores; label: string }[] = [
+  { key: 'structure', label: 'STAR' },
+  { key: 'coverage', label: 'Coverage' },
+  { key: 'evidence', label: 'Evidence' },
+  { key: 'fillers', label: 'Fillers' },
+  { key: 'pace', label: 'Pace' },
+  { key: 'length', label: 'Length' },
+];
+
+const scoreColor = (score: number) =>
+  score >= 75 ? 'text-emerald-400' : score >= 50 ? 'text-amber-400' : 'text-rose-400';
+
+const RehearsalScoreCard: React.FC<RehearsalScoreCardProps> = ({ attempts }) => {
+  if (attempts.length === 0) return null;
+  const latest = attempts[attempts.length - 1];
+  const previous = attempts.length > 1 ? attempts[attempts.length - 2] : null;
+  const delta = previous ? latest.overall - previous.overall : null;
+  const fillerList = Object.entries(latest.fillers).map(([word, n]) => `${word} ×${n}`).join(', ');
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-800/60 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-[8px] font-black text-slate-500 uppercase tracking-widest">
+          Rehearsal {attempts.length > 1 ? `· ${attempts.length} attempts` : ''}
+        </span>
+        <span className={`text-sm font-black ${scoreColor(latest.overall)}`}>
+          {latest.overall}
+          {delta !== null && delta !== 0 && (
+            <span className={`ml-1 text-[9px] ${delta > 0 ? 'text-emerald-500' : 'text-rose-500'}`}>{delta > 0 ? `+${delta}` : delta}</span>
+          )}
+        </span>
+      </div>
+      <div className="grid grid-cols-6 gap-1">
+        {DIMENSIONS.map(({ key, label }) => {
+          const score = latest.scores[key];
+          return (
+            <div key={key} className="bg-black/20 rounded-lg border border-slate-800/50 py-1.5 text-center">
+              <div className="text-[7px] text-slate-500 uppercase tracking-widest">{label}</div>
+              <div className={`text-[11px] font-bold ${score === null ? 'text-slate-700' : scoreColor(score)}`}>{score ?? '—'}</div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="text-[9px] text-slate-500">
+        {Math.round(latest.durationMs / 1000)}s · {latest.wordsPerMinute} wpm{fillerList ? ` · ${fillerList}` : ' · no fillers'}
+      </div>
+      <p className="text-[10px] text-slate-400 italic line-clamp-2 hover:line-clamp-none">"{latest.transcript}"</p>
+    </div>
+  );
+};
+
+export default RehearsalScoreCard;
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { ExperienceEntry, ProjectEntry, ResumeSections } from '../types';
+
+interface ResumeReviewDialogProps {
+  fileName: string;
+  initialSections: ResumeSections;
+  onApply: (sections: ResumeSections) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full bg-slate-950/60 border border-slate-800 rounded-lg px-3 py-2 text-xs text-slate-200 placeholder-slate-600 focus:outline-none focus:border-indigo-500/50';
+const labelClass = 'text-[9px] font-black text-slate-500 uppercase tracking-widest';
+
+const cleanLines = (lines: string[]) => lines.map(l => l.trim()).filter(Boolean);
+
+const ResumeReviewDialog: React.FC<ResumeReviewDialogProps> = ({ fileName, initialSections, onApply, onCancel }) => {
+  const [sections, setSections] = useState<ResumeSections>(initialSections);
+  // Skills are edited as free text so typing a comma isn't swallowed mid-edit.
+  const [skillsText, setSkillsText] = useState(initialSections.skills.join(', '));
+
+  const update = <K extends keyof ResumeSections>(key: K, value: ResumeSections[K]) =>
+    setSections(prev => ({ ...prev, [key]: value }));
+
+  const updateExperience = (index: number, patch: Partial<ExperienceEntry>) =>
+    update('experience', sections.experience.map((e, i) => (i === index ? { ...e, ...patch } : e)));
+
+  const updateProject = (index: number, patch: Partial<ProjectEntry>) =>
+    update('projects', sections.projects.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+
+  return (
+    <div className="absolute inset-0 z-[90] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-8">
+      <div className="bg-slate-900 border border-slate-700 rounded-[2rem] shadow-2xl w-full max-w-3xl max-h-full flex flex-col overflow-hidden">
+        <div className="px-8 py-5 border-b border-slate-800 flex items-center justify-between">
+          <div>
+            <h2 className="text-sm font-black uppercase tracking-widest text-slate-100">Review Resume</h2>
+            <p className="text-[10px] text-slate-500 mt-1">Parsed from {fileName}. Fix anything that was split wrong before it becomes the answer context.</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-500 hover:text-slate-300">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar px-8 py-6 space-y-6">
+          <div className="space-y-2">
+            <label className={labelClass}>Header</label>
+            <textarea rows={2} value={sections.header} onChange={(e) => update('header', e.target.value)} className={inputClass} />
+          </div>
+
+          <div className="space-y-2">
+            <label className={labelClass}>Summary</label>
+            <textarea rows={3} value={sections.summary} onChange={(e) => update('summary', e.target.value)} className={inputClass} />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <label className={labelClass}>Experience</label>
+              <button
+                onClick={() => update('experience', [...sections.experience, { company: '', role: '', dates: '', bullets: [] }])}
+                className="text-[9px] font-black uppercase text-indigo-500 hover:text-indigo-400"
+              >
+                + Add Position
+              </button>
+            </div>
+            {sections.experience.map((entry, i) => (
+              <div key={i} className="bg-black/20 border border-slate-800/50 rounded-xl p-4 space-y-2">
+                <div className="grid grid-cols-3 gap-2">
+                  <input value={entry.company} placeholder="Company" onChange={(e) => updateExperience(i, { company: e.target.value })} className={inputClass} />
+                  <input value={entry.role} placeholder="Role" onChange={(e) => updateExperience(i, { role: e.target.value })} className={inputClass} />
+                  <input value={entry.dates} placeholder="Dates" onChange={(e) => updateExperience(i, { dates: e.target.value })} className={inputClass} />
+                </div>
+                <textarea
+                  rows={Math.max(2, entry.bullets.length)}
+                  value={entry.bullets.join('\n')}
+                  placeholder="One bullet per line"
+                  onChange={(e) => updateExperience(i, { bullets: e.target.value.split('\n') })}
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => update('experience', sections.experience.filter((_, j) => j !== i))}
+                  className="text-[8px] font-black uppercase text-slate-500 hover:text-rose-400"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <label className={labelClass}>Projects</label>
+              <button
+                onClick={() => update('projects', [...sections.projects, { name: '', bullets: [] }])}
+                className="text-[9px] font-black uppercase text-indigo-500 hover:text-indigo-400"
+              >
+                + Add Project
+              </button>
+            </div>
+            {sections.projects.map((project, i) => (
+              <div key={i} className="bg-black/20 border border-slate-800/50 rounded-xl p-4 space-y-2">
+                <input value={project.name} placeholder="Project name" onChange={(e) => updateProject(i, { name: e.target.value })} className={inputClass} />
+                <textarea
+                  rows={Math.max(2, project.bullets.length)}
+                  value={project.bullets.join('\n')}
+                  placeholder="One detail per line"
+                  onChange={(e) => updateProject(i, { bullets: e.target.value.split('\n') })}
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => update('projects', sections.projects.filter((_, j) => j !== i))}
+                  className="text-[8px] font-black uppercase text-slate-500 hover:text-rose-400"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className={labelClass}>Skills</label>
+            <textarea
+              rows={2}
+              value={skillsText}
+              placeholder="Comma separated"
+              onChange={(e) => setSkillsText(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className={labelClass}>Education</label>
+            <textarea
+              rows={Math.max(2, sections.education.length)}
+              value={sections.education.join('\n')}
+              placeholder="One entry per line"
+              onChange={(e) => update('education', e.target.value.split('\n'))}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className={labelClass}>Other</label>
+            <textarea rows={3} value={sections.other} onChange={(e) => update('other', e.target.value)} className={inputClass} />
+          </div>
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-800 flex justify-end space-x-3">
+          <button
+            onClick={onCancel}
+            className="px-6 py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply({
+              ...sections,
+              experience: sections.experience.map(e => ({ ...e, bullets: cleanLines(e.bullets) })),
+              projects: sections.projects.map(p => ({ ...p, bullets: cleanLines(p.bullets) })),
+              skills: cleanLines(skillsText.split(',')),
+              education: cleanLines(sections.education),
+            })}
+            className="px-6 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-all shadow-lg shadow-indigo-900/40"
+          >
+            Use as Context
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeReviewDialog;
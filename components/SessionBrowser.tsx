@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { InterviewSession } from '../types';
+import { matchesSessionQuery } from '../utils/sessionStore';
+import { ExportFormat } from '../utils/sessionExport';
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'json', label: 'JSON' },
+  { format: 'markdown', label: 'MD' },
+  { format: 'html', label: 'HTML' },
+];
+
+interface SessionBrowserProps {
+  sessions: InterviewSession[];
+  currentSessionId: string | null;
+  isLocked: boolean;
+  onOpen: (session: InterviewSession) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (session: InterviewSession, format: ExportFormat) => void;
+  onImport: (file: File) => void;
+}
+
+const SessionBrowser: React.FC<SessionBrowserProps> = ({ sessions, currentSessionId, isLocked, onOpen, onRename, onDelete, onExport, onImport }) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  const filtered = useMemo(
+    () => sessions.filter(s => matchesSessionQuery(s, query)),
+    [sessions, query]
+  );
+
+  const startRename = (session: InterviewSession) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col overflow-hidden bg-slate-900/40 border border-slate-800 rounded-2xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-[9px] font-black text-slate-500 uppercase">Saved Sessions</h4>
+        <label className="cursor-pointer text-[9px] font-black uppercase text-indigo-500 hover:text-indigo-400">
+          Import
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </label>
+      </div>
+      <input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search questions or names..."
+        className="w-full bg-black/20 border border-slate-800/50 rounded-lg px-3 py-2 text-[10px] text-slate-300 placeholder-slate-600 focus:outline-none focus:border-indigo-500/50"
+      />
+      <div className="flex-1 overflow-y-auto no-scrollbar space-y-2">
+        {filtered.length === 0 && (
+          <p className="text-[10px] text-slate-600 text-center py-4">
+            {sessions.length === 0 ? 'No sessions yet. Press CONNECT to start one.' : 'No sessions match.'}
+          </p>
+        )}
+        {filtered.map(session => (
+          <div
+            key={session.id}
+            onClick={() => { if (!isLocked && editingId !== session.id) onOpen(session); }}
+            className={`group bg-black/20 p-3 rounded-lg border transition-all ${isLocked ? 'cursor-not-allowed' : 'cursor-pointer'} ${currentSessionId === session.id ? 'border-indigo-500/60 bg-indigo-500/5' : 'border-slate-800/50 hover:border-slate-700'}`}
+          >
+            {editingId === session.id ? (
+              <input
+                autoFocus
+                value={draftName}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="w-full bg-slate-950 border border-indigo-500/50 rounded px-2 py-1 text-[11px] text-slate-100 focus:outline-none"
+              />
+            ) : (
+              <div className="text-[11px] font-bold text-slate-200 truncate">{session.name}</div>
+            )}
+            <div className="flex items-center justify-between mt-1">
+              <span className="text-[8px] text-slate-500 uppercase tracking-widest">
+                {session.turns.length} turns · {session.mode === 'mock' ? 'Mock' : session.audioSource === 'system' ? 'Tab' : session.audioSource === 'dual' ? 'Tab + Mic' : 'Mic'}
+                {session.debrief?.score != null && <span className="text-emerald-500"> · {session.debrief.score}/10</span>}
+                {session.recording && <span className="text-indigo-400"> · Audio</span>}
+                {session.endedAt === null && currentSessionId !== session.id && <span className="text-amber-500"> · Unfinished</span>}
+              </span>
+              <div className="flex items-center space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={(e) => { e.stopPropagation(); setExportingId(exportingId === session.id ? null : session.id); }}
+                  className="text-[8px] font-black uppercase text-slate-500 hover:text-indigo-400"
+                >
+                  Export
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); startRename(session); }}
+                  className="text-[8px] font-black uppercase text-slate-500 hover:text-indigo-400"
+                >
+                  Rename
+                </button>
+                <button
+                  disabled={isLocked && currentSessionId === session.id}
+                  onClick={(e) => { e.stopPropagation(); onDelete(session.id); }}
+                  className="text-[8px] font-black uppercase text-slate-500 hover:text-rose-400 disabled:opacity-20"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+            {exportingId === session.id && (
+              <div className="flex items-center space-x-2 mt-2">
+                {EXPORT_OPTIONS.map(({ format, label }) => (
+                  <button
+                    key={format}
+                    onClick={(e) => { e.stopPropagation(); onExport(session, format); setExportingId(null); }}
+                    className="flex-1 py-1 rounded bg-slate-800 hover:bg-indigo-600 text-[8px] font-black uppercase tracking-widest text-slate-300 hover:text-white transition-all"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SessionBrowser;
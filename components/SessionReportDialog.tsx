@@ -0,0 +1,162 @@
+import React, { useMemo } from 'react';
+import { InterviewSession } from '../types';
+import { Distribution, buildSessionReport, compareModelConfigs, formatMs, formatRate, histogram, modelConfigLabel } from '../utils/analytics';
+import { QUESTION_TYPE_LABELS } from '../utils/promptTemplates';
+
+interface SessionReportDialogProps {
+  session: InterviewSession;
+  // Every session of the profile, for the settings comparison.
+  sessions: InterviewSession[];
+  onClose: () => void;
+}
+
+const HISTOGRAM_BUCKETS = 8;
+const HISTOGRAM_STEP_MS = 500;
+
+const labelClass = 'text-[9px] font-black text-slate-500 uppercase tracking-widest';
+const cellClass = 'px-3 py-2 text-right tabular-nums';
+
+const formatDist = (dist: Distribution | null, format: (v: number) => string = formatMs) =>
+  dist ? `${format(dist.p50)} / ${format(dist.p90)}` : '—';
+
+const Tile: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-black/20 p-3 rounded-lg border border-slate-800/50">
+    <div className="text-[8px] text-slate-500 uppercase">{label}</div>
+    <div className="text-lg font-bold text-white">{value}</div>
+    {hint && <div className="text-[8px] text-slate-600">{hint}</div>}
+  </div>
+);
+
+const SessionReportDialog: React.FC<SessionReportDialogProps> = ({ session, sessions, onClose }) => {
+  const report = useMemo(() => buildSessionReport(session.turns), [session.turns]);
+  const comparison = useMemo(() => compareModelConfigs(sessions), [sessions]);
+  const buckets = useMemo(
+    () => histogram(report?.firstTokenValues || [], HISTOGRAM_BUCKETS, HISTOGRAM_STEP_MS),
+    [report]
+  );
+  const tallest = Math.max(1, ...buckets.map(b => b.count));
+  const words = (v: number) => `${Math.round(v)}`;
+
+  return (
+    <div className="absolute inset-0 z-[90] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-8">
+      <div className="bg-slate-900 border border-slate-700 rounded-[2rem] shadow-2xl w-full max-w-3xl max-h-full flex flex-col overflow-hidden">
+        <div className="px-8 py-5 border-b border-slate-800 flex items-center justify-between">
+          <div>
+            <h2 className="text-sm font-black uppercase tracking-widest text-slate-100">Session Report</h2>
+            <p className="text-[10px] text-slate-500 mt-1">{session.name} · {modelConfigLabel(session.modelConfig)}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-300">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar px-8 py-6 space-y-8">
+          {!report ? (
+            <p className="text-xs text-slate-500 text-center py-8">No measured turns in this session. Metrics are recorded for live copilot answers.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-5 gap-3">
+                <Tile label="Answers" value={`${report.overall.turns}`} />
+                <Tile label="First Token" value={formatDist(report.overall.firstTokenMs)} hint="p50 / p90" />
+                <Tile label="Generation" value={formatDist(report.overall.generationMs)} hint="p50 / p90" />
+                <Tile label="Interrupted" value={`${report.overall.interruptions}`} />
+                <Tile label="Citations OK" value={formatRate(report.overall.citationResolveRate)} hint={`${formatRate(report.overall.citedTurnRate)} of answers cite`} />
+              </div>
+
+              {buckets.length > 0 && (
+                <div className="space-y-2">
+                  <div className={labelClass}>Time to First Token</div>
+                  <div className="flex items-end h-24 gap-1">
+                    {buckets.map((b, i) => (
+                      <div key={i} className="flex-1 flex flex-col items-center justify-end h-full" title={`${formatMs(b.from)}–${formatMs(b.to)}: ${b.count}`}>
+                        {b.count > 0 && <span className="text-[8px] text-slate-500 mb-0.5">{b.count}</span>}
+                        <div className="w-full rounded-t bg-indigo-500/70" style={{ height: `${(b.count / tallest) * 100}%` }} />
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex gap-1">
+                    {buckets.map((b, i) => (
+                      <div key={i} className="flex-1 text-center text-[8px] text-slate-600">{formatMs(b.to)}</div>
+                    ))}
+                  </div>
+                  {report.overall.answerWords && (
+                    <p className="text-[10px] text-slate-500">
+                      Answers ran {words(report.overall.answerWords.min)}–{words(report.overall.answerWords.max)} words, {words(report.overall.answerWords.mean)} on average.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <div className={labelClass}>By Question Type</div>
+                <table className="w-full text-[11px] text-slate-300">
+                  <thead className="text-[8px] text-slate-500 uppercase tracking-widest">
+                    <tr className="border-b border-slate-800">
+                      <th className="px-3 py-2 text-left">Type</th>
+                      <th className={cellClass}>Answers</th>
+                      <th className={cellClass}>First Token p50 / p90</th>
+                      <th className={cellClass}>Generation p50</th>
+                      <th className={cellClass}>Words p50</th>
+                      <th className={cellClass}>Interrupted</th>
+                      <th className={cellClass}>Citations OK</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.byType.map(row => (
+                      <tr key={row.type} className="border-b border-slate-800/50">
+                        <td className="px-3 py-2 text-left">{QUESTION_TYPE_LABELS[row.type]}</td>
+                        <td className={cellClass}>{row.turns}</td>
+                        <td className={cellClass}>{formatDist(row.firstTokenMs)}</td>
+                        <td className={cellClass}>{row.generationMs ? formatMs(row.generationMs.p50) : '—'}</td>
+                        <td className={cellClass}>{row.answerWords ? words(row.answerWords.p50) : '—'}</td>
+                        <td className={cellClass}>{row.interruptions}</td>
+                        <td className={cellClass}>{formatRate(row.citationResolveRate)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          {comparison.length > 0 && (
+            <div className="space-y-2">
+              <div className={labelClass}>Across Sessions by Model Settings</div>
+              <table className="w-full text-[11px] text-slate-300">
+                <thead className="text-[8px] text-slate-500 uppercase tracking-widest">
+                  <tr className="border-b border-slate-800">
+                    <th className="px-3 py-2 text-left">Settings</th>
+                    <th className={cellClass}>Sessions</th>
+                    <th className={cellClass}>Answers</th>
+                    <th className={cellClass}>First Token p50 / p90</th>
+                    <th className={cellClass}>Generation p50</th>
+                    <th className={cellClass}>Interrupted</th>
+                    <th className={cellClass}>Citations OK</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.map(row => (
+                    <tr key={row.label} className={`border-b border-slate-800/50 ${row.label === modelConfigLabel(session.modelConfig) ? 'text-indigo-300' : ''}`}>
+                      <td className="px-3 py-2 text-left">
+                        {row.label}
+                        <div className="text-[8px] text-slate-600">Last used {new Date(row.lastUsed).toLocaleDateString()}</div>
+                      </td>
+                      <td className={cellClass}>{row.sessions}</td>
+                      <td className={cellClass}>{row.turns}</td>
+                      <td className={cellClass}>{formatDist(row.firstTokenMs)}</td>
+                      <td className={cellClass}>{row.generationMs ? formatMs(row.generationMs.p50) : '—'}</td>
+                      <td className={cellClass}>{row.interruptions}</td>
+                      <td className={cellClass}>{formatRate(row.citationResolveRate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionReportDialog;
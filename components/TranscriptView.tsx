@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { TranscriptEntry } from '../types';
+import { speakerLabel } from '../utils/transcript';
+
+interface TranscriptViewProps {
+  entries: TranscriptEntry[];
+}
+
+const TranscriptView: React.FC<TranscriptViewProps> = ({ entries }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="pt-12 border-t border-slate-800 space-y-4">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full text-[10px] font-black text-slate-500 hover:text-slate-300 uppercase tracking-widest text-center"
+      >
+        {isOpen ? 'Hide' : 'Show'} Conversation Transcript ({entries.length})
+      </button>
+      {isOpen && (
+        <div className="space-y-3">
+          {entries.map((entry, i) => (
+            <div key={i} className={`flex ${entry.speaker === 'candidate' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[80%] rounded-2xl px-4 py-3 border ${entry.speaker === 'candidate' ? 'bg-emerald-500/5 border-emerald-500/20' : 'bg-slate-900/40 border-slate-800'}`}>
+                <div className="flex items-center justify-between space-x-4 mb-1">
+                  <span className={`text-[8px] font-black uppercase tracking-widest ${entry.speaker === 'candidate' ? 'text-emerald-400' : 'text-slate-500'}`}>
+                    {speakerLabel(entry.speaker)}
+                  </span>
+                  <span className="text-[8px] text-slate-600">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                </div>
+                <p className="text-xs text-slate-300 leading-relaxed">{entry.text}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptView;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { isVaultOpen, unlockVault } from '../utils/vault';
+import { wipeAllLocalData } from '../utils/localData';
+
+// Holds the app back until encrypted local data is unlocked, since profiles
+// are read synchronously when it mounts.
+const VaultGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [isOpen, setIsOpen] = useState(isVaultOpen);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  if (isOpen) return <>{children}</>;
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      await unlockVault(passphrase);
+      setPassphrase('');
+      setIsOpen(true);
+    } catch (err: any) {
+      setError(err.message || 'Could not unlock local data.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleWipe = async () => {
+    if (!window.confirm('Delete all profiles, resumes, sessions and recordings stored in this browser? This cannot be undone.')) return;
+    try {
+      await wipeAllLocalData();
+      window.location.reload();
+    } catch (err: any) {
+      setError(err.message || 'Could not delete local data.');
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center h-screen bg-slate-950 text-slate-100 font-sans">
+      <form onSubmit={handleUnlock} className="w-full max-w-sm bg-slate-900 border border-slate-800 rounded-[2rem] p-8 space-y-5 shadow-2xl">
+        <div className="space-y-1">
+          <h1 className="text-sm font-black uppercase tracking-widest text-slate-100">Unlock Local Data</h1>
+          <p className="text-[11px] text-slate-500">Your profiles and sessions are encrypted in this browser. Enter your passphrase to open them.</p>
+        </div>
+        <input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          className="w-full bg-black/30 border border-slate-800 rounded-xl px-4 py-3 text-xs text-slate-200 placeholder-slate-600 focus:outline-none focus:border-indigo-500"
+        />
+        {error && <p className="text-[11px] text-red-400">{error}</p>}
+        <button
+          type="submit"
+          disabled={!passphrase || isBusy}
+          className="w-full px-6 py-3 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-30 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-all"
+        >
+          {isBusy ? 'Unlocking...' : 'Unlock'}
+        </button>
+        <button
+          type="button"
+          onClick={handleWipe}
+          className="w-full text-[9px] font-black uppercase tracking-widest text-slate-600 hover:text-red-400"
+        >
+          Forgot it? Wipe All Local Data
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default VaultGate;
@@ -0,0 +1,34 @@
+import { DEFAULT_TOKEN_TTL_MS, DEFAULT_UPSTREAM, createRelayServer } from './relay';
+
+// `npm run relay`. Reads the same .env.local as the app; see the README.
+try {
+  process.loadEnvFile('.env.local');
+} catch (e) {
+  // No file: everything may come from the environment instead.
+}
+
+const port = Number(process.env.RELAY_PORT) || 8787;
+// Loopback only unless asked: the relay spends the API key for its callers.
+const host = process.env.RELAY_HOST || '127.0.0.1';
+const upstream = process.env.RELAY_UPSTREAM || DEFAULT_UPSTREAM;
+const allowedOrigins = (process.env.RELAY_ALLOWED_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+try {
+  const server = createRelayServer({
+    apiKey: process.env.GEMINI_API_KEY || '',
+    upstream,
+    tokenTtlMs: Number(process.env.RELAY_TOKEN_TTL_MS) || DEFAULT_TOKEN_TTL_MS,
+    allowedOrigins,
+    sharedSecret: process.env.RELAY_SHARED_SECRET || undefined,
+  });
+  server.listen(port, host, () => {
+    console.log(`API relay on http://${host}:${port} -> ${upstream}`);
+    console.log(`Allowed origins: ${allowedOrigins.join(', ')}`);
+  });
+} catch (e: any) {
+  console.error(e.message);
+  process.exit(1);
+}
@@ -0,0 +1,221 @@
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import tls from 'node:tls';
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { Duplex } from 'node:stream';
+
+// Holds the Gemini API key so the browser never sees it. The app asks for a
+// short-lived session token, then talks to the relay exactly as it would to
+// the Gemini API, with the token in place of the key. The relay swaps the
+// real key in and forwards: plain HTTP requests are proxied, and Live API
+// websockets are tunnelled byte for byte after the handshake is rewritten.
+
+export const DEFAULT_UPSTREAM = 'https://generativelanguage.googleapis.com';
+export const DEFAULT_TOKEN_TTL_MS = 10 * 60 * 1000;
+
+export interface RelayOptions {
+  apiKey: string;
+  // Base URL requests are forwarded to. Point it at a local stand-in to test.
+  upstream?: string;
+  tokenTtlMs?: number;
+  // Origins allowed to request tokens and call through the relay.
+  allowedOrigins: string[];
+  // Lets clients outside a browser, which send no Origin, request tokens by
+  // passing it in the x-relay-secret header. Unset, only listed origins can.
+  sharedSecret?: string;
+  now?: () => number;
+}
+
+export interface SessionToken {
+  token: string;
+  expiresAt: number;
+}
+
+export interface TokenStore {
+  issue: () => SessionToken;
+  isValid: (token: string | null | undefined) => boolean;
+}
+
+export function createTokenStore(ttlMs: number, now: () => number = Date.now): TokenStore {
+  const tokens = new Map<string, number>();
+
+  const sweep = () => {
+    const t = now();
+    tokens.forEach((expiresAt, token) => {
+      if (expiresAt <= t) tokens.delete(token);
+    });
+  };
+
+  return {
+    issue: () => {
+      sweep();
+      const issued = { token: `rt_${randomBytes(24).toString('hex')}`, expiresAt: now() + ttlMs };
+      tokens.set(issued.token, issued.expiresAt);
+      return issued;
+    },
+    isValid: (token) => {
+      if (!token) return false;
+      const expiresAt = tokens.get(token);
+      return expiresAt !== undefined && expiresAt > now();
+    },
+  };
+}
+
+// The SDK's API versions. Nothing else is forwarded.
+const API_PATH = /^\/(v1|v1alpha|v1beta)\//;
+// Live API sockets: /ws/google.ai.generativelanguage.<version>.GenerativeService.<method>
+const WS_PATH = /^\/ws\/google\.ai\.generativelanguage\.\w+\.GenerativeService\.\w+$/;
+// Only request headers that mean something upstream are passed on.
+const FORWARDED_HEADERS = ['content-type', 'accept', 'user-agent', 'x-goog-api-client'];
+
+// The SDK builds socket URLs as `${base}/ws/...`, and a base ending in a
+// slash gives `//ws/...`.
+const parsePath = (rawUrl: string | undefined) => new URL((rawUrl || '/').replace(/^\/+/, '/'), 'http://relay');
+
+export function createRelayServer(options: RelayOptions): http.Server {
+  if (!options.apiKey) throw new Error('The relay needs an API key (GEMINI_API_KEY).');
+  const upstream = new URL(options.upstream || DEFAULT_UPSTREAM);
+  const isSecure = upstream.protocol === 'https:';
+  const upstreamPort = Number(upstream.port) || (isSecure ? 443 : 80);
+  const tokens = createTokenStore(options.tokenTtlMs ?? DEFAULT_TOKEN_TTL_MS, options.now);
+  const allowed = new Set(options.allowedOrigins);
+
+  // Requests without an Origin come from outside a browser (curl, tests) and
+  // still need a token; a browser on another site is turned away.
+  const isOriginAllowed = (origin: string | undefined) => origin === undefined || allowed.has(origin);
+
+  // Tokens are handed out to listed origins, or to callers with the shared
+  // secret. Anything else could spend the key just by asking.
+  const secret = options.sharedSecret ? Buffer.from(options.sharedSecret) : null;
+  const mayIssueToken = (req: http.IncomingMessage) => {
+    const origin = req.headers.origin;
+    if (origin !== undefined) return allowed.has(origin);
+    const header = req.headers['x-relay-secret'];
+    const given = Buffer.from((Array.isArray(header) ? header[0] : header) ?? '');
+    return secret !== null && given.length === secret.length && timingSafeEqual(given, secret);
+  };
+
+  const corsHeaders = (origin: string | undefined): http.OutgoingHttpHeaders =>
+    origin && allowed.has(origin)
+      ? {
+          'access-control-allow-origin': origin,
+          'access-control-allow-methods': 'GET, POST, OPTIONS',
+          'access-control-allow-headers': 'content-type, x-goog-api-key, x-goog-api-client',
+          'access-control-max-age': '600',
+          vary: 'Origin',
+        }
+      : {};
+
+  // Errors in the Gemini API's own shape, so the SDK reports them normally.
+  const sendError = (res: http.ServerResponse, origin: string | undefined, code: number, status: string, message: string) => {
+    res.writeHead(code, { 'content-type': 'application/json', ...corsHeaders(origin) });
+    res.end(JSON.stringify({ error: { code, status, message } }));
+  };
+
+  const server = http.createServer((req, res) => {
+    const origin = req.headers.origin;
+    if (!isOriginAllowed(origin)) {
+      sendError(res, origin, 403, 'PERMISSION_DENIED', `Origin ${origin} is not allowed to use this relay.`);
+      return;
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, corsHeaders(origin));
+      res.end();
+      return;
+    }
+
+    const url = parsePath(req.url);
+    if (req.method === 'POST' && url.pathname === '/session') {
+      req.resume();
+      if (!mayIssueToken(req)) {
+        sendError(res, origin, 403, 'PERMISSION_DENIED', 'Session tokens need an allowed Origin or the relay shared secret.');
+        return;
+      }
+      res.writeHead(200, { 'content-type': 'application/json', 'cache-control': 'no-store', ...corsHeaders(origin) });
+      res.end(JSON.stringify(tokens.issue()));
+      return;
+    }
+    if (!API_PATH.test(url.pathname)) {
+      sendError(res, origin, 404, 'NOT_FOUND', `No route for ${url.pathname}.`);
+      return;
+    }
+
+    const header = req.headers['x-goog-api-key'];
+    const token = (Array.isArray(header) ? header[0] : header) ?? url.searchParams.get('key');
+    if (!tokens.isValid(token)) {
+      sendError(res, origin, 401, 'UNAUTHENTICATED', 'Missing or expired relay session token.');
+      return;
+    }
+
+    url.searchParams.delete('key');
+    const headers: http.OutgoingHttpHeaders = { 'x-goog-api-key': options.apiKey };
+    FORWARDED_HEADERS.forEach(name => {
+      if (req.headers[name] !== undefined) headers[name] = req.headers[name];
+    });
+
+    const forward = (isSecure ? https : http).request(
+      {
+        protocol: upstream.protocol,
+        hostname: upstream.hostname,
+        port: upstreamPort,
+        method: req.method,
+        path: `${url.pathname}${url.search}`,
+        headers,
+      },
+      upstreamRes => {
+        const responseHeaders: http.OutgoingHttpHeaders = { ...corsHeaders(origin) };
+        ['content-type', 'cache-control'].forEach(name => {
+          if (upstreamRes.headers[name] !== undefined) responseHeaders[name] = upstreamRes.headers[name];
+        });
+        res.writeHead(upstreamRes.statusCode || 502, responseHeaders);
+        upstreamRes.pipe(res);
+      },
+    );
+    forward.on('error', e => {
+      if (res.headersSent) res.destroy(e);
+      else sendError(res, origin, 502, 'UNAVAILABLE', `Upstream request failed: ${e.message}`);
+    });
+    // Closing the page aborts a streaming answer upstream as well.
+    res.on('close', () => {
+      if (!res.writableFinished) forward.destroy();
+    });
+    req.pipe(forward);
+  });
+
+  server.on('upgrade', (req: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+    const reject = (code: number, reason: string) => {
+      socket.end(`HTTP/1.1 ${code} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+    };
+    const url = parsePath(req.url);
+    if (!isOriginAllowed(req.headers.origin)) return reject(403, 'Forbidden');
+    if (!WS_PATH.test(url.pathname)) return reject(404, 'Not Found');
+    if (!tokens.isValid(url.searchParams.get('key'))) return reject(401, 'Unauthorized');
+
+    // The token is only checked here: a socket outlives it once open.
+    url.searchParams.set('key', options.apiKey);
+    const lines = [`GET ${url.pathname}${url.search} HTTP/1.1`, `Host: ${upstream.host}`];
+    for (let i = 0; i < req.rawHeaders.length; i += 2) {
+      const name = req.rawHeaders[i];
+      if (!/^(host|origin|cookie|x-goog-api-key)$/i.test(name)) lines.push(`${name}: ${req.rawHeaders[i + 1]}`);
+    }
+
+    const onConnect = () => {
+      target.write(`${lines.join('\r\n')}\r\n\r\n`);
+      if (head.length > 0) target.write(head);
+      socket.pipe(target).pipe(socket);
+    };
+    const target = isSecure
+      ? tls.connect({ host: upstream.hostname, port: upstreamPort, servername: upstream.hostname }, onConnect)
+      : net.connect({ host: upstream.hostname, port: upstreamPort }, onConnect);
+    target.on('error', () => {
+      if (target.bytesWritten === 0) reject(502, 'Bad Gateway');
+      else socket.destroy();
+    });
+    socket.on('error', () => target.destroy());
+    target.on('close', () => socket.destroy());
+    socket.on('close', () => target.destroy());
+  });
+
+  return server;
+}
@@ -0,0 +1,15 @@
+export interface AnswerRequest {
+  model: string;
+  systemInstruction: string;
+  prompt: string;
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+// Request/response generation, used when there is no live session to ask.
+// Text is streamed through `onText` as it arrives; the full answer, citation
+// block included, is returned at the end.
+export interface AnswerProvider {
+  readonly name: string;
+  generate(request: AnswerRequest, onText: (text: string) => void): Promise<string>;
+}
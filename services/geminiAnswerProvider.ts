@@ -0,0 +1,29 @@
+import { GoogleGenAI } from '@google/genai';
+import { AnswerProvider, AnswerRequest } from './answerProvider';
+import { RelayClient } from './relayClient';
+
+export function createGeminiAnswerProvider(relay: RelayClient): AnswerProvider {
+  return {
+    name: 'gemini',
+    async generate(request: AnswerRequest, onText: (text: string) => void): Promise<string> {
+      const ai = new GoogleGenAI({ apiKey: await relay.getToken(), httpOptions: { baseUrl: relay.baseUrl } });
+      const stream = await ai.models.generateContentStream({
+        model: request.model,
+        contents: request.prompt,
+        config: {
+          systemInstruction: request.systemInstruction,
+          temperature: request.temperature,
+          abortSignal: request.signal,
+        },
+      });
+      let answer = '';
+      for await (const chunk of stream) {
+        const text = chunk.text;
+        if (!text) continue;
+        answer += text;
+        onText(text);
+      }
+      return answer;
+    },
+  };
+}
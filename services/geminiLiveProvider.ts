@@ -0,0 +1,43 @@
+import { GoogleGenAI, Modality } from '@google/genai';
+import { LiveProvider, LiveSession, LiveSessionCallbacks, LiveSessionConfig } from './liveProvider';
+import { RelayClient } from './relayClient';
+
+export function createGeminiLiveProvider(relay: RelayClient): LiveProvider {
+  return {
+    name: 'gemini',
+    async connect(config: LiveSessionConfig, callbacks: LiveSessionCallbacks): Promise<LiveSession> {
+      // Each connect (reconnects included) gets a fresh relay token.
+      const ai = new GoogleGenAI({ apiKey: await relay.getToken(), httpOptions: { baseUrl: relay.baseUrl } });
+      const session = await ai.live.connect({
+        model: config.model,
+        config: config.responseModality === 'text'
+          ? {
+              responseModalities: [Modality.TEXT],
+              systemInstruction: config.systemInstruction,
+              temperature: config.temperature,
+              inputAudioTranscription: {},
+            }
+          : {
+              responseModalities: [Modality.AUDIO],
+              systemInstruction: config.systemInstruction,
+              temperature: config.temperature,
+              inputAudioTranscription: {},
+              outputAudioTranscription: {},
+              speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: config.voiceName } } },
+            },
+        callbacks: {
+          onopen: () => callbacks.onopen?.(),
+          onmessage: callbacks.onmessage,
+          onerror: (e) => callbacks.onerror?.(e),
+          onclose: () => callbacks.onclose?.(),
+        },
+      });
+
+      return {
+        sendRealtimeInput: (input) => session.sendRealtimeInput(input),
+        sendText: (text) => session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true }),
+        close: () => session.close(),
+      };
+    },
+  };
+}
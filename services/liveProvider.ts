@@ -0,0 +1,36 @@
+import { LiveServerMessage } from '@google/genai';
+import { ResponseModality } from '../types';
+
+export interface LiveSessionConfig {
+  model: string;
+  systemInstruction: string;
+  voiceName: string;
+  // Text answers arrive as model text parts instead of audio with a transcript.
+  responseModality: ResponseModality;
+  temperature: number;
+}
+
+export interface LiveSessionCallbacks {
+  onopen?: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onerror?: (e: ErrorEvent | Error) => void;
+  onclose?: () => void;
+}
+
+export interface PcmChunk {
+  data: string;
+  mimeType: string;
+}
+
+// A connected live session. Implementations translate these calls into
+// whatever their backend speaks; the UI never touches a transport directly.
+export interface LiveSession {
+  sendRealtimeInput(input: { media: PcmChunk }): void;
+  sendText(text: string): void;
+  close(): void;
+}
+
+export interface LiveProvider {
+  readonly name: string;
+  connect(config: LiveSessionConfig, callbacks: LiveSessionCallbacks): Promise<LiveSession>;
+}
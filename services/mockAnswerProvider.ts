@@ -0,0 +1,32 @@
+import { AnswerProvider, AnswerRequest } from './answerProvider';
+import { MockFixture, loadMockFixture } from './mockLiveProvider';
+
+const CHUNK_DELAY_MS = 80;
+
+// Answers each request with the next scripted answer from the fixture (its
+// output transcription, joined), streamed one fragment at a time.
+export function createMockAnswerProvider(fixture: MockFixture | string): AnswerProvider {
+  let script: MockFixture | null = typeof fixture === 'string' ? null : fixture;
+  let nextTurn = 0;
+
+  return {
+    name: 'mock',
+    async generate(request: AnswerRequest, onText: (text: string) => void): Promise<string> {
+      if (!script) script = await loadMockFixture(fixture as string);
+      const answers = script.turns
+        .map(turn => turn.steps.map(s => s.message?.serverContent?.outputTranscription?.text || '').filter(Boolean))
+        .filter(fragments => fragments.length > 0);
+      if (answers.length === 0) throw new Error('The mock fixture has no scripted answers.');
+      const fragments = answers[nextTurn++ % answers.length];
+
+      let answer = '';
+      for (const fragment of fragments) {
+        await new Promise(resolve => setTimeout(resolve, CHUNK_DELAY_MS));
+        if (request.signal?.aborted) throw new DOMException('Generation cancelled.', 'AbortError');
+        answer += fragment;
+        onText(fragment);
+      }
+      return answer;
+    },
+  };
+}
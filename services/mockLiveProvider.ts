@@ -0,0 +1,115 @@
+import { LiveServerMessage } from '@google/genai';
+import { encode } from '../utils/audio';
+import { LiveProvider, LiveSession, LiveSessionCallbacks } from './liveProvider';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+
+// One scripted server event. `message` is replayed verbatim; `tone` is
+// expanded into a model audio chunk so fixtures don't have to embed base64 PCM;
+// `drop` simulates the connection failing at that point.
+export interface MockFixtureStep {
+  delayMs?: number;
+  message?: LiveServerMessage;
+  tone?: { frequencyHz: number; durationMs: number };
+  drop?: boolean;
+}
+
+export interface MockFixtureTurn {
+  steps: MockFixtureStep[];
+}
+
+export interface MockFixture {
+  name: string;
+  turns: MockFixtureTurn[];
+}
+
+export async function loadMockFixture(name: string): Promise<MockFixture> {
+  const response = await fetch(`/fixtures/${encodeURIComponent(name)}.json`);
+  if (!response.ok) {
+    throw new Error(`Mock fixture "${name}" not found (${response.status}).`);
+  }
+  return response.json();
+}
+
+function synthesizeTone(frequencyHz: number, durationMs: number): LiveServerMessage {
+  const frames = Math.round((OUTPUT_SAMPLE_RATE * durationMs) / 1000);
+  const int16 = new Int16Array(frames);
+  for (let i = 0; i < frames; i++) {
+    int16[i] = Math.round(Math.sin((2 * Math.PI * frequencyHz * i) / OUTPUT_SAMPLE_RATE) * 0.2 * 32767);
+  }
+  return {
+    serverContent: {
+      modelTurn: {
+        parts: [{ inlineData: { data: encode(new Uint8Array(int16.buffer)), mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}` } }],
+      },
+    },
+  } as LiveServerMessage;
+}
+
+// Replays a fixture one turn at a time. A turn starts when the client first
+// sends audio or text while the mock is idle, which mirrors the real flow of
+// pressing "Listen" or "Analyze & Answer". Script position is kept per
+// provider, so reconnecting after a `drop` continues with the next turn.
+export function createMockLiveProvider(fixture: MockFixture | string): LiveProvider {
+  let script: MockFixture | null = typeof fixture === 'string' ? null : fixture;
+  let nextTurn = 0;
+
+  return {
+    name: 'mock',
+    async connect(_config, callbacks: LiveSessionCallbacks): Promise<LiveSession> {
+      if (!script) {
+        script = await loadMockFixture(fixture as string);
+        nextTurn = 0;
+      }
+      const turns = script.turns;
+      let isPlaying = false;
+      let isClosed = false;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const playTurn = (turn: MockFixtureTurn) => {
+        isPlaying = true;
+        let index = 0;
+        const step = () => {
+          if (isClosed) return;
+          if (index >= turn.steps.length) {
+            isPlaying = false;
+            return;
+          }
+          const current = turn.steps[index++];
+          timer = setTimeout(() => {
+            if (isClosed) return;
+            if (current.message) callbacks.onmessage(current.message);
+            if (current.tone) callbacks.onmessage(synthesizeTone(current.tone.frequencyHz, current.tone.durationMs));
+            if (current.drop) {
+              isClosed = true;
+              callbacks.onerror?.(new Error('Mock connection dropped.'));
+              callbacks.onclose?.();
+              return;
+            }
+            step();
+          }, current.delayMs ?? 0);
+        };
+        step();
+      };
+
+      const startNextTurn = () => {
+        if (isClosed || isPlaying || nextTurn >= turns.length) return;
+        playTurn(turns[nextTurn++]);
+      };
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      callbacks.onopen?.();
+
+      return {
+        sendRealtimeInput: () => startNextTurn(),
+        sendText: () => startNextTurn(),
+        close: () => {
+          if (isClosed) return;
+          isClosed = true;
+          if (timer) clearTimeout(timer);
+          callbacks.onclose?.();
+        },
+      };
+    },
+  };
+}
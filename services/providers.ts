@@ -0,0 +1,29 @@
+import { LiveProvider } from './liveProvider';
+import { AnswerProvider } from './answerProvider';
+import { createGeminiLiveProvider } from './geminiLiveProvider';
+import { createGeminiAnswerProvider } from './geminiAnswerProvider';
+import { createMockLiveProvider } from './mockLiveProvider';
+import { createMockAnswerProvider } from './mockAnswerProvider';
+import { RelayClient, createRelayClient } from './relayClient';
+
+// The Gemini providers reach the API only through the relay (server/relay.ts),
+// which holds the key. One client is shared, so both reuse its token.
+let relay: RelayClient | null = null;
+const getRelay = () => (relay ??= createRelayClient(process.env.RELAY_URL || 'http://localhost:8787'));
+
+// LIVE_PROVIDER=mock swaps the Gemini backend for a scripted replay of
+// public/fixtures/<MOCK_FIXTURE>.json, so the UI runs with no network or key.
+export function createLiveProvider(): LiveProvider {
+  if (process.env.LIVE_PROVIDER === 'mock') {
+    return createMockLiveProvider(process.env.MOCK_FIXTURE || 'behavioral-interview');
+  }
+  return createGeminiLiveProvider(getRelay());
+}
+
+// The non-live counterpart, switched by the same LIVE_PROVIDER setting.
+export function createAnswerProvider(): AnswerProvider {
+  if (process.env.LIVE_PROVIDER === 'mock') {
+    return createMockAnswerProvider(process.env.MOCK_FIXTURE || 'behavioral-interview');
+  }
+  return createGeminiAnswerProvider(getRelay());
+}
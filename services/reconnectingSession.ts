@@ -0,0 +1,146 @@
+import { LiveProvider, LiveSession, LiveSessionCallbacks, LiveSessionConfig, PcmChunk } from './liveProvider';
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'failed' | 'closed';
+
+export interface ReconnectOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Audio captured while disconnected is held for replay, oldest dropped first.
+  maxBufferedChunks?: number;
+}
+
+export interface ReconnectingSessionCallbacks extends LiveSessionCallbacks {
+  onstatus: (status: ConnectionStatus, attempt: number) => void;
+  // Fired after a dropped connection is restored and buffered input replayed.
+  onreconnected?: () => void;
+}
+
+const DEFAULTS: Required<ReconnectOptions> = {
+  maxAttempts: 6,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  maxBufferedChunks: 240,
+};
+
+// Wraps a provider connection so that unexpected drops are retried with
+// exponential backoff. `getConfig` is called on every attempt, letting the
+// caller fold a summary of the interview so far into the system instruction.
+// The initial connect is not retried: its failure is returned to the caller.
+export async function connectWithReconnect(
+  provider: LiveProvider,
+  getConfig: (isReconnect: boolean) => LiveSessionConfig,
+  callbacks: ReconnectingSessionCallbacks,
+  options: ReconnectOptions = {},
+): Promise<LiveSession> {
+  const opts = { ...DEFAULTS, ...options };
+  let current: LiveSession | null = null;
+  let generation = 0;
+  let attempt = 0;
+  let closedByClient = false;
+  let hasFailed = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  const audioBuffer: PcmChunk[] = [];
+  const textBuffer: string[] = [];
+
+  const flushBuffers = () => {
+    if (!current) return;
+    audioBuffer.splice(0).forEach(media => current!.sendRealtimeInput({ media }));
+    textBuffer.splice(0).forEach(text => current!.sendText(text));
+  };
+
+  const handleDrop = (gen: number, e?: ErrorEvent | Error) => {
+    // Ignore stale callbacks and the close that usually follows an error.
+    if (gen !== generation || closedByClient) return;
+    generation++;
+    current = null;
+
+    if (attempt >= opts.maxAttempts) {
+      hasFailed = true;
+      callbacks.onstatus('failed', attempt);
+      if (e) callbacks.onerror?.(e);
+      callbacks.onclose?.();
+      return;
+    }
+
+    const delay = Math.min(opts.baseDelayMs * 2 ** attempt, opts.maxDelayMs) * (0.8 + Math.random() * 0.4);
+    attempt++;
+    callbacks.onstatus('reconnecting', attempt);
+    retryTimer = setTimeout(reconnect, delay);
+  };
+
+  const open = async (isReconnect: boolean) => {
+    const gen = ++generation;
+    const session = await provider.connect(getConfig(isReconnect), {
+      onopen: () => {
+        if (!isReconnect) callbacks.onopen?.();
+      },
+      onmessage: (message) => {
+        if (gen === generation) callbacks.onmessage(message);
+      },
+      onerror: (e) => handleDrop(gen, e),
+      onclose: () => handleDrop(gen),
+    });
+    if (gen !== generation || closedByClient) {
+      session.close();
+      return;
+    }
+    current = session;
+  };
+
+  const reconnect = async () => {
+    retryTimer = null;
+    if (closedByClient) return;
+    const gen = generation;
+    try {
+      await open(true);
+    } catch (e: any) {
+      // A connect that throws never reaches onclose, so treat it as a drop
+      // of the generation it was started under.
+      handleDrop(gen + 1, e);
+      return;
+    }
+    if (!current) return;
+    attempt = 0;
+    callbacks.onstatus('connected', 0);
+    flushBuffers();
+    callbacks.onreconnected?.();
+  };
+
+  callbacks.onstatus('connecting', 0);
+  try {
+    await open(false);
+  } catch (e) {
+    callbacks.onstatus('failed', 0);
+    throw e;
+  }
+  callbacks.onstatus('connected', 0);
+
+  return {
+    sendRealtimeInput: (input) => {
+      if (current) {
+        current.sendRealtimeInput(input);
+        return;
+      }
+      audioBuffer.push(input.media);
+      if (audioBuffer.length > opts.maxBufferedChunks) audioBuffer.shift();
+    },
+    sendText: (text) => {
+      if (current) current.sendText(text);
+      else textBuffer.push(text);
+    },
+    close: () => {
+      if (closedByClient) return;
+      closedByClient = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      audioBuffer.length = 0;
+      textBuffer.length = 0;
+      const session = current;
+      current = null;
+      session?.close();
+      if (hasFailed) return;
+      callbacks.onstatus('closed', 0);
+      callbacks.onclose?.();
+    },
+  };
+}
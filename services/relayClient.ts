@@ -0,0 +1,39 @@
+// The browser side of server/relay.ts: fetches short-lived session tokens
+// that stand in for the API key on requests to the relay.
+
+export interface RelayClient {
+  baseUrl: string;
+  getToken: () => Promise<string>;
+}
+
+// Tokens this close to expiry are replaced rather than reused.
+const REFRESH_MARGIN_MS = 30 * 1000;
+
+export function createRelayClient(baseUrl: string): RelayClient {
+  const base = baseUrl.replace(/\/+$/, '');
+  let cached: { token: string; expiresAt: number } | null = null;
+
+  return {
+    baseUrl: base,
+    getToken: async () => {
+      if (cached && cached.expiresAt - REFRESH_MARGIN_MS > Date.now()) return cached.token;
+      let res: Response;
+      try {
+        res = await fetch(`${base}/session`, { method: 'POST' });
+      } catch (e) {
+        throw new Error(`Could not reach the API relay at ${base}. Start it with "npm run relay".`);
+      }
+      if (!res.ok) {
+        throw new Error(res.status === 403
+          ? `The API relay at ${base} does not allow this origin (${window.location.origin}).`
+          : `The API relay refused a session (HTTP ${res.status}).`);
+      }
+      const session = await res.json();
+      if (typeof session.token !== 'string' || typeof session.expiresAt !== 'number') {
+        throw new Error('The API relay returned an invalid session.');
+      }
+      cached = { token: session.token, expiresAt: session.expiresAt };
+      return cached.token;
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { useSyncExternalStore } from 'react';
+import { MIN_LEVEL_DB } from '../utils/vad';
+
+export interface LevelStore {
+  getLevel: () => number;
+  setLevel: (levelDb: number) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+// Input level in dBFS, updated once per captured chunk. Kept out of App
+// state so the meter re-renders without re-rendering the whole page.
+export function createLevelStore(): LevelStore {
+  let level = MIN_LEVEL_DB;
+  const listeners = new Set<() => void>();
+  return {
+    getLevel: () => level,
+    setLevel: (levelDb) => {
+      if (levelDb === level) return;
+      level = levelDb;
+      listeners.forEach(l => l());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+export function useLevel(store: LevelStore): number {
+  return useSyncExternalStore(store.subscribe, store.getLevel);
+}
@@ -0,0 +1,153 @@
+import { useSyncExternalStore } from 'react';
+import { Turn } from '../types';
+import { parseResumeUsage } from '../utils/citations';
+
+// Lifecycle of a single question/answer turn. `isListening` is tracked
+// separately because the mic can stay open while an answer streams.
+export type TurnPhase = 'idle' | 'listening' | 'transcribing' | 'generating' | 'complete' | 'interrupted';
+
+export interface TurnState {
+  phase: TurnPhase;
+  isListening: boolean;
+  interviewerText: string;
+  aiText: string;
+  isManualTrigger: boolean;
+  // The Turn produced by the most recent TURN_COMPLETE, or null if that
+  // completion carried no answer text.
+  completedTurn: Turn | null;
+}
+
+export type TurnEvent =
+  | { type: 'START_LISTENING' }
+  | { type: 'STOP_LISTENING' }
+  | { type: 'INPUT_TRANSCRIPTION'; text: string }
+  | { type: 'OUTPUT_TRANSCRIPTION'; text: string }
+  // The candidate corrected or typed the question by hand.
+  | { type: 'EDIT_QUESTION'; text: string }
+  | { type: 'MANUAL_TRIGGER' }
+  | { type: 'TURN_COMPLETE'; id: string; timestamp: number }
+  | { type: 'INTERRUPTED' }
+  | { type: 'NEXT' }
+  | { type: 'RESET' };
+
+export const initialTurnState: TurnState = {
+  phase: 'idle',
+  isListening: false,
+  interviewerText: '',
+  aiText: '',
+  isManualTrigger: false,
+  completedTurn: null,
+};
+
+const isTurnOpen = (phase: TurnPhase) => phase === 'transcribing' || phase === 'generating';
+
+export function turnReducer(state: TurnState, event: TurnEvent): TurnState {
+  switch (event.type) {
+    case 'START_LISTENING':
+      return {
+        ...state,
+        isListening: true,
+        phase: isTurnOpen(state.phase) ? state.phase : 'listening',
+      };
+
+    case 'STOP_LISTENING':
+      return {
+        ...state,
+        isListening: false,
+        phase: state.phase === 'listening' ? 'idle' : state.phase,
+      };
+
+    case 'INPUT_TRANSCRIPTION':
+      return {
+        ...state,
+        interviewerText: state.interviewerText + event.text,
+        phase: state.phase === 'generating' ? 'generating' : 'transcribing',
+      };
+
+    case 'OUTPUT_TRANSCRIPTION':
+      return { ...state, aiText: state.aiText + event.text, phase: 'generating' };
+
+    case 'EDIT_QUESTION':
+      if (state.phase === 'generating') return state;
+      return {
+        ...state,
+        interviewerText: event.text,
+        phase: event.text ? 'transcribing' : (state.isListening ? 'listening' : 'idle'),
+      };
+
+    case 'MANUAL_TRIGGER':
+      if (!state.interviewerText) return state;
+      return { ...state, isListening: false, isManualTrigger: true, phase: 'generating' };
+
+    case 'TURN_COMPLETE': {
+      const { answer, segments } = parseResumeUsage(state.aiText);
+      if (!answer) {
+        return {
+          ...state,
+          isListening: false,
+          phase: state.interviewerText ? 'transcribing' : 'idle',
+          completedTurn: null,
+        };
+      }
+      const turn: Turn = {
+        id: event.id,
+        interviewer: state.interviewerText,
+        aiSuggested: answer,
+        timestamp: event.timestamp,
+        isManualTrigger: state.isManualTrigger,
+        usedSegments: segments,
+      };
+      return {
+        ...initialTurnState,
+        phase: 'complete',
+        completedTurn: turn,
+      };
+    }
+
+    case 'INTERRUPTED':
+      return {
+        ...state,
+        aiText: '',
+        isManualTrigger: false,
+        phase: state.phase === 'generating' ? 'interrupted' : state.phase,
+      };
+
+    case 'NEXT':
+      return { ...initialTurnState, completedTurn: state.completedTurn };
+
+    case 'RESET':
+      return initialTurnState;
+  }
+}
+
+export interface TurnStore {
+  getState: () => TurnState;
+  dispatch: (event: TurnEvent) => TurnState;
+  subscribe: (listener: () => void) => () => void;
+}
+
+// Holds turn state outside React so live-session callbacks always read and
+// update the current transcript rather than the one from their closure.
+export function createTurnStore(initial: TurnState = initialTurnState): TurnStore {
+  let state = initial;
+  const listeners = new Set<() => void>();
+  return {
+    getState: () => state,
+    dispatch: (event) => {
+      const next = turnReducer(state, event);
+      if (next !== state) {
+        state = next;
+        listeners.forEach(l => l());
+      }
+      return state;
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+export function useTurnState(store: TurnStore): TurnState {
+  return useSyncExternalStore(store.subscribe, store.getState);
+}
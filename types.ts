@@ -1,16 +1,275 @@
+// 'dual' captures the meeting tab and the microphone as separate channels:
+// only the tab (interviewer) is sent to the model.
+export type AudioSource = 'microphone' | 'system' | 'dual';
+
+export type Speaker = 'interviewer' | 'candidate';
+
+export interface TranscriptEntry {
+  speaker: Speaker;
+  text: string;
+  timestamp: number;
+}
+
+// 'copilot' turns pair a real interviewer's question with a suggested answer.
+// 'practice' turns come from mock interviews: the AI asked `interviewer` and
+// the candidate's spoken reply is in `candidateAnswer`. Copilot turns captured
+// in dual mode also record what the candidate actually said there.
+export type TurnRole = 'copilot' | 'practice';
+
+export type SessionMode = 'copilot' | 'mock';
+
+export type QuestionType = 'behavioral' | 'coding' | 'system_design' | 'product' | 'logistics' | 'general';
 
 export interface Turn {
   id: string;
+  role?: TurnRole;
   interviewer: string;
   aiSuggested: string;
+  candidateAnswer?: string;
+  // Set by the local question classifier when the turn completes.
+  questionType?: QuestionType;
   timestamp: number;
   isManualTrigger?: boolean;
+  // Answered by a request/response call because no live session was available.
+  isOffline?: boolean;
+  // IDs of the resume and job description chunks the answer cites (see ContextChunk).
   usedSegments?: string[];
+  // Spoken practice attempts at this answer, oldest first.
+  rehearsals?: RehearsalAttempt[];
+  // Where the question audio sits in the session recording (see SessionRecording).
+  audioRange?: AudioRange;
+  // Latency and quality measurements, recorded for live copilot turns.
+  metrics?: TurnMetrics;
+  // Every version of the suggested answer, the original first. Absent until
+  // the answer is first refined; `aiSuggested` and `usedSegments` always hold
+  // the chosen version, so exports and scoring use it.
+  versions?: AnswerVersion[];
+  chosenVersionId?: string;
+}
+
+export type RefinementKind = 'shorter' | 'technical' | 'metric' | 'different_project' | 'simpler';
+
+export interface AnswerVersion {
+  id: string;
+  text: string;
+  usedSegments: string[];
+  // How this version was produced from `basedOn`; absent on the original.
+  refinement?: RefinementKind;
+  basedOn?: string;
+  createdAt: number;
+}
+
+export interface TurnMetrics {
+  // From the end of the interviewer's speech (or the manual trigger) to the
+  // first answer text. Null when no question audio was seen.
+  firstTokenMs: number | null;
+  // From the first answer text to turn completion.
+  generationMs: number | null;
+  answerWords: number;
+  // How many `interrupted` events fired while the turn was open.
+  interruptions: number;
+  citations: number;
+  resolvedCitations: number;
+}
+
+// The live model settings a session ran with, so reports can be compared
+// across settings. Modality and temperature are absent on older sessions.
+export interface SessionModelConfig {
+  model: string;
+  voiceName: string;
+  responseModality?: ResponseModality;
+  temperature?: number;
+}
+
+export type ResponseModality = 'audio' | 'text';
+export type AnswerLength = 'short' | 'medium' | 'long';
+
+// Per-profile live session settings, applied on the next connect.
+export interface ModelSettings {
+  model: string;
+  voiceName: string;
+  responseModality: ResponseModality;
+  answerLength: AnswerLength;
+  temperature: number;
+  // Processing applied to microphone capture; tab capture is always raw.
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+}
+
+// Offsets in milliseconds from the start of the session recording.
+export interface AudioRange {
+  startMs: number;
+  endMs: number;
+}
+
+// The audio itself is stored separately, keyed by session ID, so listing and
+// exporting sessions doesn't load it.
+export interface SessionRecording {
+  mimeType: string;
+  durationMs: number;
+  sizeBytes: number;
+}
+
+// Per-dimension scores, 0-100. Null when the turn gives nothing to compare
+// against (e.g. no suggested answer or no cited resume evidence).
+export interface RehearsalScores {
+  structure: number;
+  coverage: number | null;
+  evidence: number | null;
+  fillers: number;
+  pace: number;
+  length: number;
+}
+
+export interface RehearsalAttempt {
+  id: string;
+  timestamp: number;
+  transcript: string;
+  durationMs: number;
+  wordCount: number;
+  wordsPerMinute: number;
+  fillers: Record<string, number>;
+  scores: RehearsalScores;
+  overall: number;
+}
+
+// Closing feedback the mock interviewer gives once the practice run ends.
+export interface MockDebrief {
+  // Overall score out of 10, or null if the model didn't give one.
+  score: number | null;
+  text: string;
+}
+
+export interface InterviewSession {
+  id: string;
+  // Owning CandidateProfile. Sessions saved before profiles existed have none
+  // and belong to the first profile.
+  profileId?: string;
+  name: string;
+  startedAt: number;
+  endedAt: number | null;
+  audioSource: AudioSource;
+  resumeVersion: string;
+  // Resume text the session ran against, so cited chunk IDs stay resolvable.
+  resumeText?: string;
+  jobContext?: JobContext;
+  // Absent on sessions recorded before mock interviews existed.
+  mode?: SessionMode;
+  debrief?: MockDebrief;
+  // Speaker-labeled record of the conversation, kept for dual-capture sessions.
+  transcript?: TranscriptEntry[];
+  // Present once a local audio recording of the session has been saved.
+  recording?: SessionRecording;
+  modelConfig?: SessionModelConfig;
+  turns: Turn[];
+}
+
+export interface JobContext {
+  jobDescription: string;
+  companyNotes: string;
+  interviewers: string;
+}
+
+// An addressable slice of the resume or job description. `start`/`end` are
+// offsets into the text it was cut from.
+export interface ContextChunk {
+  id: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface ExperienceEntry {
+  company: string;
+  role: string;
+  dates: string;
+  bullets: string[];
+}
+
+export interface ProjectEntry {
+  name: string;
+  bullets: string[];
+}
+
+// Structured view of an uploaded resume, reviewed by the user before being
+// flattened back into the prompt context.
+export interface ResumeSections {
+  header: string;
+  summary: string;
+  experience: ExperienceEntry[];
+  projects: ProjectEntry[];
+  skills: string[];
+  education: string[];
+  other: string;
+}
+
+// `system` is the whole instruction sent to the model and may use the
+// variables listed in TEMPLATE_VARIABLES; `types` holds the answer style for
+// each question type, inserted via {{questionRules}}.
+export interface PromptTemplates {
+  system: string;
+  types: Record<QuestionType, string>;
+}
+
+export interface PromptPreferences {
+  // Free-form talking points and tone guidance added to every prompt.
+  talkingPoints: string;
+  // Mock interview questions, one per line.
+  questionBank: string;
+  templates: PromptTemplates;
+}
+
+// A named bundle of everything one interview track needs: its own resume,
+// job context and prompt preferences. Sessions link back via profileId.
+export interface CandidateProfile {
+  id: string;
+  name: string;
+  resume: string;
+  jobContext: JobContext;
+  preferences: PromptPreferences;
+  modelSettings: ModelSettings;
+  redaction: RedactionSettings;
+  prepPack: PrepPack;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A likely question with an answer prepared before the interview, shown
+// straight away when a live question matches it.
+export interface PrepItem {
+  id: string;
+  question: string;
+  answer: string;
+  questionType: QuestionType;
+  // Resume and job chunk IDs the answer cites, as on Turn.
+  usedSegments: string[];
+  // Set once the candidate changes the generated question or answer.
+  isEdited?: boolean;
+  updatedAt: number;
+}
+
+export interface PrepPack {
+  items: PrepItem[];
+  // Resume version the questions were predicted from, to flag a stale pack.
+  resumeVersion: string | null;
+  generatedAt: number | null;
+}
+
+export type PiiKind = 'name' | 'email' | 'phone' | 'address' | 'link';
+
+// Personal details masked in everything sent to the model. An empty list
+// sends the resume as written.
+export interface RedactionSettings {
+  kinds: PiiKind[];
+  // The candidate's name as they entered it. Empty means it is guessed from
+  // the first line of the resume.
+  name: string;
 }
 
 export interface AppState {
   isActive: boolean;
-  history: Turn[];
+  profile: CandidateProfile;
+  session: InterviewSession | null;
   currentInterviewerText: string;
   currentAiText: string;
   error: string | null;
@@ -0,0 +1,217 @@
+import { ContextChunk, InterviewSession, QuestionType, SessionModelConfig, Turn, TurnMetrics } from '../types';
+import { resolveCitations } from './citations';
+import { QUESTION_TYPES } from './promptTemplates';
+
+export interface TurnTiming {
+  firstTokenMs: number | null;
+  generationMs: number | null;
+  interruptions: number;
+}
+
+export interface TurnTimer {
+  // Called for each chunk of question audio sent; `isVoiced` when it was
+  // above the speech threshold.
+  sent: (isVoiced: boolean) => void;
+  // A manual "answer now": the question ends at the press.
+  trigger: () => void;
+  firstToken: () => void;
+  interrupted: () => void;
+  // Returns the open turn's timing and starts the next one.
+  complete: () => TurnTiming;
+  reset: () => void;
+}
+
+// Times one copilot turn at a time. Audio sent after the answer starts is
+// ignored, so an open mic during generation doesn't push the question's end
+// past its first token; an interruption starts the measurement over.
+export function createTurnTimer(now: () => number = () => performance.now()): TurnTimer {
+  let lastSpeechAt: number | null = null;
+  let lastSentAt: number | null = null;
+  let firstTokenAt: number | null = null;
+  let interruptions = 0;
+
+  const reset = () => {
+    lastSpeechAt = null;
+    lastSentAt = null;
+    firstTokenAt = null;
+    interruptions = 0;
+  };
+
+  return {
+    sent: (isVoiced) => {
+      if (firstTokenAt !== null) return;
+      const t = now();
+      lastSentAt = t;
+      if (isVoiced) lastSpeechAt = t;
+    },
+    trigger: () => {
+      if (firstTokenAt !== null) return;
+      lastSpeechAt = lastSentAt = now();
+    },
+    firstToken: () => {
+      if (firstTokenAt === null) firstTokenAt = now();
+    },
+    interrupted: () => {
+      interruptions++;
+      firstTokenAt = null;
+    },
+    complete: () => {
+      const questionEnd = lastSpeechAt ?? lastSentAt;
+      const timing: TurnTiming = {
+        firstTokenMs: questionEnd !== null && firstTokenAt !== null ? Math.max(0, Math.round(firstTokenAt - questionEnd)) : null,
+        generationMs: firstTokenAt !== null ? Math.round(now() - firstTokenAt) : null,
+        interruptions,
+      };
+      reset();
+      return timing;
+    },
+    reset,
+  };
+}
+
+export const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+export function computeTurnMetrics(turn: Turn, timing: TurnTiming, chunks: ContextChunk[]): TurnMetrics {
+  const refs = turn.usedSegments || [];
+  return {
+    ...timing,
+    answerWords: countWords(turn.aiSuggested),
+    citations: refs.length,
+    resolvedCitations: resolveCitations(refs, chunks).chunks.length,
+  };
+}
+
+export interface Distribution {
+  count: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  min: number;
+  max: number;
+}
+
+// Nearest-rank percentile over sorted values.
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+
+export function summarize(values: number[]): Distribution | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+export interface HistogramBucket {
+  from: number;
+  to: number;
+  count: number;
+}
+
+// Equal-width buckets starting at zero, each a multiple of `step` wide and
+// together covering the largest value.
+export function histogram(values: number[], bucketCount: number, step: number): HistogramBucket[] {
+  if (values.length === 0) return [];
+  const width = Math.max(step, Math.ceil(Math.max(...values) / bucketCount / step) * step);
+  const buckets = Array.from({ length: bucketCount }, (_, i) => ({ from: i * width, to: (i + 1) * width, count: 0 }));
+  values.forEach(v => {
+    buckets[Math.min(bucketCount - 1, Math.floor(v / width))].count++;
+  });
+  return buckets;
+}
+
+export interface MetricsSummary {
+  turns: number;
+  firstTokenMs: Distribution | null;
+  generationMs: Distribution | null;
+  answerWords: Distribution | null;
+  interruptions: number;
+  // Share of citations that resolved to a chunk; null when nothing was cited.
+  citationResolveRate: number | null;
+  // Share of turns that cited anything at all.
+  citedTurnRate: number;
+}
+
+export interface TypeBreakdown extends MetricsSummary {
+  type: QuestionType;
+}
+
+export interface SessionReport {
+  overall: MetricsSummary;
+  byType: TypeBreakdown[];
+  firstTokenValues: number[];
+}
+
+const measured = (turns: Turn[]) => turns.filter((t): t is Turn & { metrics: TurnMetrics } => t.metrics !== undefined);
+const defined = (values: (number | null)[]) => values.filter((v): v is number => v !== null);
+
+function summarizeMetrics(metrics: TurnMetrics[]): MetricsSummary {
+  const citations = metrics.reduce((sum, m) => sum + m.citations, 0);
+  const resolved = metrics.reduce((sum, m) => sum + m.resolvedCitations, 0);
+  return {
+    turns: metrics.length,
+    firstTokenMs: summarize(defined(metrics.map(m => m.firstTokenMs))),
+    generationMs: summarize(defined(metrics.map(m => m.generationMs))),
+    answerWords: summarize(metrics.map(m => m.answerWords)),
+    interruptions: metrics.reduce((sum, m) => sum + m.interruptions, 0),
+    citationResolveRate: citations > 0 ? resolved / citations : null,
+    citedTurnRate: metrics.length > 0 ? metrics.filter(m => m.citations > 0).length / metrics.length : 0,
+  };
+}
+
+// Null when none of the turns were measured (sessions recorded before
+// instrumentation, or mock interviews).
+export function buildSessionReport(turns: Turn[]): SessionReport | null {
+  const turnsWithMetrics = measured(turns);
+  if (turnsWithMetrics.length === 0) return null;
+  const byType = QUESTION_TYPES
+    .map(type => ({ type, metrics: turnsWithMetrics.filter(t => (t.questionType || 'general') === type).map(t => t.metrics) }))
+    .filter(group => group.metrics.length > 0)
+    .map(group => ({ type: group.type, ...summarizeMetrics(group.metrics) }));
+  return {
+    overall: summarizeMetrics(turnsWithMetrics.map(t => t.metrics)),
+    byType,
+    firstTokenValues: defined(turnsWithMetrics.map(t => t.metrics.firstTokenMs)),
+  };
+}
+
+export interface ConfigComparison extends MetricsSummary {
+  label: string;
+  config: SessionModelConfig | null;
+  sessions: number;
+  lastUsed: number;
+}
+
+export function modelConfigLabel(config: SessionModelConfig | null | undefined): string {
+  if (!config) return 'Unrecorded settings';
+  const parts = [config.model, config.responseModality === 'text' ? 'text' : config.voiceName];
+  if (config.temperature !== undefined) parts.push(`t${config.temperature.toFixed(1)}`);
+  return parts.join(' · ');
+}
+
+// Groups measured turns from every session by the model settings they ran
+// with, most recently used first.
+export function compareModelConfigs(sessions: InterviewSession[]): ConfigComparison[] {
+  const groups = new Map<string, { config: SessionModelConfig | null; sessions: number; lastUsed: number; metrics: TurnMetrics[] }>();
+  sessions.forEach(session => {
+    const metrics = measured(session.turns).map(t => t.metrics);
+    if (metrics.length === 0) return;
+    const label = modelConfigLabel(session.modelConfig);
+    const group = groups.get(label) ?? { config: session.modelConfig ?? null, sessions: 0, lastUsed: 0, metrics: [] };
+    group.sessions++;
+    group.lastUsed = Math.max(group.lastUsed, session.startedAt);
+    group.metrics.push(...metrics);
+    groups.set(label, group);
+  });
+  return [...groups.entries()]
+    .map(([label, g]) => ({ label, config: g.config, sessions: g.sessions, lastUsed: g.lastUsed, ...summarizeMetrics(g.metrics) }))
+    .sort((a, b) => b.lastUsed - a.lastUsed);
+}
+
+export const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`);
+export const formatRate = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
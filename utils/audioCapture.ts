@@ -0,0 +1,81 @@
+import { PcmChunk } from '../services/liveProvider';
+import { PCM_CAPTURE_PROCESSOR, PCM_CAPTURE_WORKLET_SOURCE } from './pcmCaptureWorklet';
+import { createPcmBlobFromInt16 } from './audio';
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+export const DEFAULT_CAPTURE_CHUNK_SIZE = 2048;
+
+export interface AudioCaptureOptions {
+  // Frames per emitted chunk, measured at the 16 kHz output rate.
+  chunkSize?: number;
+}
+
+export interface AudioCapture {
+  context: AudioContext;
+  stop: () => void;
+}
+
+let workletUrl: string | null = null;
+
+function getWorkletUrl(): string {
+  if (!workletUrl) {
+    workletUrl = URL.createObjectURL(new Blob([PCM_CAPTURE_WORKLET_SOURCE], { type: 'application/javascript' }));
+  }
+  return workletUrl;
+}
+
+// Root-mean-square amplitude of a PCM16 chunk, from 0 to 1.
+export function pcmRms(int16: Int16Array): number {
+  if (int16.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < int16.length; i++) {
+    const s = int16[i] / 32768;
+    sum += s * s;
+  }
+  return Math.sqrt(sum / int16.length);
+}
+
+// Captures `stream` off the main thread and calls `onChunk` with 16 kHz PCM16
+// blobs ready for sendRealtimeInput, along with the chunk's RMS level. The
+// AudioContext runs at the device's native rate; resampling happens inside
+// the worklet.
+export async function startAudioCapture(
+  stream: MediaStream,
+  onChunk: (chunk: PcmChunk, rms: number) => void,
+  options: AudioCaptureOptions = {},
+): Promise<AudioCapture> {
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    await context.audioWorklet.addModule(getWorkletUrl());
+  } catch (e) {
+    context.close();
+    throw new Error('Audio capture is not supported in this browser.');
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(context, PCM_CAPTURE_PROCESSOR, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: {
+      targetSampleRate: CAPTURE_SAMPLE_RATE,
+      chunkSize: options.chunkSize ?? DEFAULT_CAPTURE_CHUNK_SIZE,
+    },
+  });
+  node.port.onmessage = (e: MessageEvent<Int16Array>) => onChunk(createPcmBlobFromInt16(e.data), pcmRms(e.data));
+
+  // The worklet writes silence; connecting to the destination keeps it pulled.
+  source.connect(node);
+  node.connect(context.destination);
+
+  return {
+    context,
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      context.close();
+    },
+  };
+}
@@ -0,0 +1,82 @@
+export interface AudioDeviceSettings {
+  // Empty string means the browser default.
+  inputId: string;
+  outputId: string;
+}
+
+export interface AudioDeviceList {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+const STORAGE_KEY = 'interview_audio_devices';
+
+export const DEFAULT_AUDIO_DEVICES: AudioDeviceSettings = { inputId: '', outputId: '' };
+
+export function loadAudioDevices(): AudioDeviceSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return { ...DEFAULT_AUDIO_DEVICES, ...(stored && typeof stored === 'object' ? stored : {}) };
+  } catch {
+    return DEFAULT_AUDIO_DEVICES;
+  }
+}
+
+export function saveAudioDevices(settings: AudioDeviceSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Labels stay empty until the page has been granted microphone access once;
+// the picker falls back to numbered names until then.
+export async function listAudioDevices(): Promise<AudioDeviceList> {
+  if (!navigator.mediaDevices?.enumerateDevices) return { inputs: [], outputs: [] };
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: devices.filter(d => d.kind === 'audioinput'),
+    outputs: devices.filter(d => d.kind === 'audiooutput'),
+  };
+}
+
+export interface MicrophoneProcessing {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+}
+
+const DEFAULT_PROCESSING: MicrophoneProcessing = { echoCancellation: true, noiseSuppression: true };
+
+export function microphoneConstraints(inputId: string, processing: MicrophoneProcessing = DEFAULT_PROCESSING): MediaTrackConstraints {
+  return {
+    ...(inputId ? { deviceId: { exact: inputId } } : {}),
+    echoCancellation: processing.echoCancellation,
+    noiseSuppression: processing.noiseSuppression,
+    autoGainControl: true,
+  };
+}
+
+// An exact deviceId fails instead of quietly falling back to another mic,
+// which is the failure this setting exists to prevent.
+export async function openMicrophone(inputId: string, processing?: MicrophoneProcessing): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: microphoneConstraints(inputId, processing) });
+  } catch (e: any) {
+    if (inputId && (e.name === 'OverconstrainedError' || e.name === 'NotFoundError')) {
+      throw new Error('The selected microphone is not connected. Pick another one in Audio Devices.');
+    }
+    throw e;
+  }
+}
+
+export function isOutputSelectionSupported(): boolean {
+  return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+}
+
+// Routes an AudioContext to the chosen speaker. Unsupported browsers and
+// unplugged devices keep the default output.
+export async function applyOutputDevice(context: AudioContext, outputId: string): Promise<void> {
+  if (!outputId || !isOutputSelectionSupported()) return;
+  try {
+    await (context as any).setSinkId(outputId);
+  } catch (e) {
+    console.warn('Could not switch audio output, using the default.', e);
+  }
+}
@@ -0,0 +1,64 @@
+import { ContextChunk } from '../types';
+
+const RESUME_USAGE_PATTERN = /RESUME_USAGE:\s*(\[.*\])/s;
+
+export interface ParsedAnswer {
+  answer: string;
+  segments: string[];
+}
+
+// Splits the trailing `RESUME_USAGE: [...]` block the model is asked to emit
+// off the spoken answer. Malformed citation JSON leaves the text untouched.
+export function parseResumeUsage(rawText: string): ParsedAnswer {
+  const match = rawText.match(RESUME_USAGE_PATTERN);
+  if (!match) {
+    return { answer: rawText.trim(), segments: [] };
+  }
+  try {
+    const parsed = JSON.parse(match[1]);
+    const segments = Array.isArray(parsed) ? parsed.filter((s): s is string => typeof s === 'string') : [];
+    return { answer: rawText.replace(RESUME_USAGE_PATTERN, '').trim(), segments };
+  } catch (e) {
+    console.error("Failed to parse citations", e);
+    return { answer: rawText.trim(), segments: [] };
+  }
+}
+
+// For display while the answer is still streaming: hides a citation block
+// that may be only partially received.
+export function stripResumeUsage(rawText: string): string {
+  return rawText.replace(/RESUME_USAGE:.*$/s, '').trim();
+}
+
+export interface ResolvedCitations {
+  chunks: ContextChunk[];
+  // References that don't match any chunk of the resume being checked.
+  invalid: string[];
+}
+
+const MIN_LEGACY_SNIPPET_CHARS = 12;
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Maps cited references to resume chunks. References are expected to be chunk
+// IDs; older sessions stored quoted snippets, which are accepted only when they
+// equal a chunk or sit inside exactly one, so short phrases can't match widely.
+export function resolveCitations(refs: string[], chunks: ContextChunk[]): ResolvedCitations {
+  const byId = new Map(chunks.map(c => [c.id, c]));
+  const resolved: ContextChunk[] = [];
+  const invalid: string[] = [];
+
+  for (const ref of refs) {
+    let chunk = byId.get(ref.trim());
+    if (!chunk) {
+      const needle = normalize(ref);
+      chunk = chunks.find(c => normalize(c.text) === needle);
+      if (!chunk && needle.length >= MIN_LEGACY_SNIPPET_CHARS) {
+        const containing = chunks.filter(c => normalize(c.text).includes(needle));
+        if (containing.length === 1) chunk = containing[0];
+      }
+    }
+    if (!chunk) invalid.push(ref);
+    else if (!resolved.includes(chunk)) resolved.push(chunk);
+  }
+  return { chunks: resolved, invalid };
+}
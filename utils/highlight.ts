@@ -0,0 +1,176 @@
+// Lightweight syntax highlighting for code in answers: comments, strings,
+// numbers and keywords for the languages interview answers tend to use.
+// Unknown languages get the C-style rules, which read acceptably for most.
+
+export type CodeTokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'literal';
+
+export interface CodeToken {
+  type: CodeTokenType;
+  text: string;
+}
+
+interface LanguageRules {
+  lineComment: string[];
+  blockComment?: [string, string];
+  // Python's triple-quoted strings, JS template literals, etc.
+  strings: string[];
+  keywords: string[];
+  literals: string[];
+}
+
+const C_LIKE: LanguageRules = {
+  lineComment: ['//'],
+  blockComment: ['/*', '*/'],
+  strings: ['"', "'"],
+  keywords: [
+    'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'return', 'class', 'struct',
+    'enum', 'interface', 'public', 'private', 'protected', 'static', 'final', 'const', 'new', 'try', 'catch', 'finally',
+    'throw', 'throws', 'import', 'package', 'namespace', 'using', 'void', 'int', 'long', 'double', 'float', 'char',
+    'bool', 'boolean', 'string', 'auto', 'extends', 'implements', 'virtual', 'override', 'template', 'typename',
+  ],
+  literals: ['true', 'false', 'null', 'nullptr', 'this'],
+};
+
+const LANGUAGES: Record<string, LanguageRules> = {
+  python: {
+    lineComment: ['#'],
+    strings: ['"""', "'''", '"', "'"],
+    keywords: [
+      'def', 'class', 'return', 'if', 'elif', 'else', 'for', 'while', 'in', 'not', 'and', 'or', 'is', 'import', 'from',
+      'as', 'with', 'try', 'except', 'finally', 'raise', 'pass', 'break', 'continue', 'lambda', 'yield', 'global',
+      'nonlocal', 'assert', 'del', 'async', 'await',
+    ],
+    literals: ['True', 'False', 'None', 'self'],
+  },
+  javascript: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    strings: ['`', '"', "'"],
+    keywords: [
+      'const', 'let', 'var', 'function', 'return', 'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default',
+      'break', 'continue', 'class', 'extends', 'new', 'try', 'catch', 'finally', 'throw', 'import', 'export', 'from',
+      'async', 'await', 'yield', 'typeof', 'instanceof', 'in', 'of', 'interface', 'type', 'enum', 'implements',
+      'public', 'private', 'protected', 'readonly', 'as',
+    ],
+    literals: ['true', 'false', 'null', 'undefined', 'this'],
+  },
+  go: {
+    ...C_LIKE,
+    strings: ['`', '"', "'"],
+    keywords: [
+      'func', 'package', 'import', 'return', 'if', 'else', 'for', 'range', 'switch', 'case', 'default', 'break',
+      'continue', 'go', 'defer', 'select', 'chan', 'map', 'struct', 'interface', 'type', 'var', 'const',
+    ],
+    literals: ['true', 'false', 'nil'],
+  },
+  rust: {
+    ...C_LIKE,
+    // Not "'": it also marks lifetimes.
+    strings: ['"'],
+    keywords: [
+      'fn', 'let', 'mut', 'pub', 'impl', 'trait', 'struct', 'enum', 'match', 'if', 'else', 'for', 'while', 'loop',
+      'in', 'return', 'use', 'mod', 'crate', 'self', 'Self', 'where', 'async', 'await', 'move', 'ref', 'const', 'static',
+    ],
+    literals: ['true', 'false', 'None', 'Some', 'Ok', 'Err'],
+  },
+  sql: {
+    lineComment: ['--'],
+    blockComment: ['/*', '*/'],
+    strings: ["'", '"'],
+    keywords: [
+      'select', 'from', 'where', 'join', 'left', 'right', 'inner', 'outer', 'on', 'group', 'by', 'order', 'having',
+      'limit', 'offset', 'insert', 'into', 'values', 'update', 'set', 'delete', 'create', 'table', 'index', 'as',
+      'and', 'or', 'not', 'in', 'is', 'distinct', 'union', 'all', 'with', 'case', 'when', 'then', 'else', 'end',
+      'count', 'sum', 'avg', 'min', 'max', 'over', 'partition', 'primary', 'key', 'foreign', 'references',
+    ],
+    literals: ['null', 'true', 'false'],
+  },
+  shell: {
+    lineComment: ['#'],
+    strings: ['"', "'"],
+    keywords: ['if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'do', 'done', 'case', 'esac', 'function', 'in', 'export', 'local', 'return'],
+    literals: ['true', 'false'],
+  },
+};
+
+const ALIASES: Record<string, string> = {
+  py: 'python', js: 'javascript', jsx: 'javascript', ts: 'javascript', tsx: 'javascript', typescript: 'javascript',
+  golang: 'go', rs: 'rust', bash: 'shell', sh: 'shell', zsh: 'shell', postgres: 'sql', mysql: 'sql',
+};
+
+// SQL keywords are matched case-insensitively.
+const CASE_INSENSITIVE = new Set(['sql']);
+
+const NUMBER = /^(?:0[xX][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)/;
+const WORD = /^[A-Za-z_$][\w$]*/;
+
+export function highlightCode(code: string, lang: string): CodeToken[] {
+  const name = ALIASES[lang] ?? lang;
+  const rules = LANGUAGES[name] ?? C_LIKE;
+  const fold = CASE_INSENSITIVE.has(name);
+  const keywords = new Set(rules.keywords);
+  const literals = new Set(rules.literals);
+  const tokens: CodeToken[] = [];
+  const push = (type: CodeTokenType, text: string) => {
+    const prev = tokens[tokens.length - 1];
+    if (prev?.type === type) prev.text += text;
+    else tokens.push({ type, text });
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const rest = code.slice(i);
+
+    const line = rules.lineComment.find(marker => rest.startsWith(marker));
+    if (line) {
+      const end = code.indexOf('\n', i);
+      const stop = end === -1 ? code.length : end;
+      push('comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+    if (rules.blockComment && rest.startsWith(rules.blockComment[0])) {
+      const end = code.indexOf(rules.blockComment[1], i + rules.blockComment[0].length);
+      const stop = end === -1 ? code.length : end + rules.blockComment[1].length;
+      push('comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    const quote = rules.strings.find(q => rest.startsWith(q));
+    if (quote) {
+      // Runs to the closing quote, skipping escapes; single-character quotes
+      // other than backticks also stop at the end of the line.
+      let j = i + quote.length;
+      while (j < code.length && !code.startsWith(quote, j)) {
+        if (code[j] === '\\') j++;
+        else if (code[j] === '\n' && quote.length === 1 && quote !== '`') break;
+        j++;
+      }
+      const stop = Math.min(code.length, code.startsWith(quote, j) ? j + quote.length : j);
+      push('string', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    const prevChar = i > 0 ? code[i - 1] : '';
+    const number = /[\w$]/.test(prevChar) ? null : NUMBER.exec(rest);
+    if (number) {
+      push('number', number[0]);
+      i += number[0].length;
+      continue;
+    }
+
+    const word = WORD.exec(rest);
+    if (word) {
+      const key = fold ? word[0].toLowerCase() : word[0];
+      push(keywords.has(key) ? 'keyword' : literals.has(key) ? 'literal' : 'plain', word[0]);
+      i += word[0].length;
+      continue;
+    }
+
+    push('plain', code[i]);
+    i++;
+  }
+  return tokens;
+}
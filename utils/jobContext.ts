@@ -0,0 +1,20 @@
+import { ContextChunk, JobContext } from '../types';
+import { chunkText } from './resume';
+
+export const JOB_CHUNK_PREFIX = 'j';
+
+export function emptyJobContext(): JobContext {
+  return { jobDescription: '', companyNotes: '', interviewers: '' };
+}
+
+export function hasJobContext(context: JobContext): boolean {
+  return Boolean(context.jobDescription.trim() || context.companyNotes.trim() || context.interviewers.trim());
+}
+
+// Only the job description is citable; notes and interviewer names are
+// background for the model.
+export function chunkJobDescription(context: JobContext): ContextChunk[] {
+  return chunkText(context.jobDescription, JOB_CHUNK_PREFIX);
+}
+
+export const isJobChunkId = (id: string) => id.startsWith(`${JOB_CHUNK_PREFIX}_`);
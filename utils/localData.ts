@@ -0,0 +1,21 @@
+import { deleteAllSessionData, rewriteSessionStore } from './sessionStore';
+import { disableVault, enableVault, wipeLocalStorage } from './vault';
+
+// Encryption of everything the app keeps in the browser. The vault covers
+// localStorage; session records are rewritten around the vault switch, so
+// nothing is ever left encrypted without the vault to open it.
+
+export async function turnOnEncryption(passphrase: string): Promise<void> {
+  await rewriteSessionStore(true, () => enableVault(passphrase));
+}
+
+export async function turnOffEncryption(): Promise<void> {
+  await rewriteSessionStore(false, disableVault);
+}
+
+// Deletes profiles, resumes, sessions, recordings and settings. Callers
+// reload the page afterwards.
+export async function wipeAllLocalData(): Promise<void> {
+  await deleteAllSessionData();
+  wipeLocalStorage();
+}
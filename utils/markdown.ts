@@ -0,0 +1,233 @@
+// A small Markdown parser for model answers: headings, lists, tables,
+// blockquotes, rules and fenced code, with inline code, emphasis and links.
+// It builds a tree for MarkdownView to render as React elements, so nothing
+// the model writes is ever inserted as HTML. Input may be a partial stream:
+// an unterminated code fence runs to the end, and unclosed emphasis stays text.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'code'; lang: string; code: string; isOpen: boolean }
+  | { type: 'table'; header: string[]; align: TableAlign[]; rows: string[][] }
+  | { type: 'blockquote'; blocks: MarkdownBlock[] }
+  | { type: 'rule' };
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const isBlank = (line: string) => line.trim() === '';
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+const splitRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes('|') && i + 1 < lines.length && lines[i + 1].includes('-') && TABLE_SEPARATOR.test(lines[i + 1]);
+
+// Whether a line opens a block, and so ends a running paragraph.
+const startsBlock = (lines: string[], i: number) =>
+  FENCE.test(lines[i]) || HEADING.test(lines[i]) || RULE.test(lines[i]) || QUOTE.test(lines[i])
+  || LIST_ITEM.test(lines[i]) || isTableStart(lines, i);
+
+function parseAlign(cell: string): TableAlign {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+}
+
+function parseList(lines: string[], start: number): { block: MarkdownBlock; next: number } {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: MarkdownBlock[][] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const m = LIST_ITEM.exec(lines[i]);
+    if (!m || m[1].length > baseIndent + 1 || /\d/.test(m[2]) !== ordered) break;
+    const contentIndent = m[1].length + m[2].length + 1;
+    const itemLines = [m[3]];
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        // A blank line stays in the item only if indented content follows.
+        let j = i + 1;
+        while (j < lines.length && isBlank(lines[j])) j++;
+        if (j < lines.length && indentOf(lines[j]) > baseIndent) {
+          itemLines.push(...lines.slice(i, j).map(() => ''));
+          i = j;
+          continue;
+        }
+        break;
+      }
+      const indent = indentOf(line);
+      if (indent > baseIndent) {
+        itemLines.push(line.slice(Math.min(indent, contentIndent)));
+      } else if (!startsBlock(lines, i)) {
+        // Lazy continuation of the item's text.
+        itemLines.push(line.trim());
+      } else {
+        break;
+      }
+      i++;
+    }
+    items.push(parseBlocks(itemLines));
+    // Loose lists separate items with blank lines.
+    let j = i;
+    while (j < lines.length && isBlank(lines[j])) j++;
+    const nextItem = j < lines.length ? LIST_ITEM.exec(lines[j]) : null;
+    if (j > i && nextItem && nextItem[1].length <= baseIndent + 1 && /\d/.test(nextItem[2]) === ordered) i = j;
+  }
+
+  return { block: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, next: i };
+}
+
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const indent = indentOf(line);
+      const code: string[] = [];
+      i++;
+      let isOpen = true;
+      while (i < lines.length) {
+        const l = lines[i];
+        i++;
+        if (l.trim().startsWith(marker[0].repeat(marker.length)) && l.trim().replace(/[`~]/g, '') === '') {
+          isOpen = false;
+          break;
+        }
+        code.push(l.slice(Math.min(indent, indentOf(l))));
+      }
+      // A fence still streaming in may end on a line it hasn't written yet.
+      if (isOpen && code.length > 0 && isBlank(code[code.length - 1])) code.pop();
+      blocks.push({ type: 'code', lang: fence[2].toLowerCase(), code: code.join('\n'), isOpen });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i]) && (QUOTE.test(lines[i]) || !startsBlock(lines, i))) {
+        quoted.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', blocks: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map(parseAlign);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_, c) => cells[c] ?? ''));
+        i++;
+      }
+      blocks.push({ type: 'table', header, align: header.map((_, c) => align[c] ?? null), rows });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { block, next } = parseList(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+  }
+
+  return blocks;
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  return parseBlocks(source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
+}
+
+// Only these link targets are rendered as links; anything else (javascript:,
+// data:, relative paths) is shown as plain text.
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+
+export function isSafeUrl(href: string): boolean {
+  return SAFE_URL.test(href.trim());
+}
+
+// Code spans first, so emphasis markers inside them are left alone. Emphasis
+// needs both markers; `_` only counts at word boundaries, so snake_case names
+// stay intact.
+const INLINE = /(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)|\*\*(?=\S)([\s\S]*?\S)\*\*|\*(?=[^\s*])([\s\S]*?[^\s*])\*|(?<![\w\\])_(?=[^\s_])([\s\S]*?[^\s_])_(?!\w)|\[([^\]\n]+)\]\(([^)\s]+)\)/g;
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let last = 0;
+  const pushText = (value: string) => {
+    if (!value) return;
+    const prev = nodes[nodes.length - 1];
+    if (prev?.type === 'text') prev.text += value;
+    else nodes.push({ type: 'text', text: value });
+  };
+
+  for (const m of text.matchAll(INLINE)) {
+    pushText(text.slice(last, m.index));
+    last = m.index! + m[0].length;
+    if (m[1]) {
+      nodes.push({ type: 'code', text: m[2].trim() || m[2] });
+    } else if (m[3] !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(m[3]) });
+    } else if (m[4] !== undefined || m[5] !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(m[4] ?? m[5]) });
+    } else if (isSafeUrl(m[7])) {
+      nodes.push({ type: 'link', href: m[7], children: parseInline(m[6]) });
+    } else {
+      pushText(m[6]);
+    }
+  }
+  pushText(text.slice(last));
+  return nodes;
+}
@@ -0,0 +1,124 @@
+import { JobContext, MockDebrief, Turn } from '../types';
+import { summarizePriorTurns } from './prompt';
+
+export const MOCK_QUESTION_COUNT = 5;
+const MAX_FOLLOW_UPS = 2;
+
+export const DEFAULT_QUESTION_BANK = [
+  'Tell me about yourself.',
+  'Tell me about a time you disagreed with a teammate. How did you resolve it?',
+  'Describe the most technically challenging project you have worked on.',
+  'Tell me about a time you failed. What did you learn?',
+  'How do you prioritize when everything is urgent?',
+  'Why are you interested in this role?',
+].join('\n');
+
+// Sent as text to start the interview and to cut it short for the debrief.
+export const MOCK_START_PROMPT = 'The candidate is ready. Greet them briefly and ask your first question.';
+export const MOCK_END_PROMPT = 'The candidate has ended the interview. Do not ask anything else; give the debrief now.';
+export const MOCK_RESUME_PROMPT = 'The connection dropped and is back. Briefly repeat your last question if it was not answered, otherwise ask the next one.';
+
+// Only at the start of a line, so the interviewer mentioning a debrief
+// mid-interview ("we'll debrief at the end") doesn't end it. The transcript
+// of the spoken word comes in any case, with whatever punctuation follows.
+const DEBRIEF_MARKER = /^\s*debrief(?:[:.,]|[ \t]*$)/im;
+const SCORE_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'];
+// Matches the written "7/10" and transcribed forms like "Overall score, seven out of ten".
+const SCORE_PATTERN = new RegExp(
+  `OVERALL SCORE[:,]?\\s*(?:is\\s+)?(\\d+(?:\\.\\d+)?|${SCORE_WORDS.join('|')})\\s*(?:\\/|out of)\\s*(?:10|ten)\\b`,
+  'i',
+);
+
+export interface MockPromptContext {
+  resume: string;
+  jobContext: JobContext;
+  questionBank: string;
+  priorTurns?: Turn[];
+}
+
+export function parseQuestionBank(text: string): string[] {
+  return text.split('\n').map(q => q.trim()).filter(Boolean);
+}
+
+export function buildMockInterviewInstruction({ resume, jobContext, questionBank, priorTurns = [] }: MockPromptContext): string {
+  const questions = parseQuestionBank(questionBank);
+  let base = `
+You are a professional interviewer running a realistic mock interview to help the candidate practice.
+Speak naturally and concisely, as a real interviewer would.
+
+RULES:
+- Ask exactly one question at a time, then stop talking and wait for the candidate's spoken answer.
+- Ask ${MOCK_QUESTION_COUNT} main questions in total. Mix questions from the QUESTION BANK with questions you write yourself about specific projects and experience on the resume and the requirements in the job description.
+- After each answer you may ask up to ${MAX_FOLLOW_UPS} short follow-up questions when the answer is vague, missing a result, or invites a deeper probe. Follow-ups do not count toward the ${MOCK_QUESTION_COUNT} main questions.
+- Do not coach, praise at length, or give feedback during the interview. A brief acknowledgement before the next question is fine.
+- Never answer your own questions.
+
+DEBRIEF:
+After the last answer, or as soon as you are told the candidate has ended the interview, give a spoken debrief that starts with the word DEBRIEF on its own line. Never start a line with that word anywhere else.
+Score each main question out of 10 with one sentence of feedback, then list the two biggest strengths and the two most important improvements.
+End the debrief with a final line formatted exactly like this:
+OVERALL SCORE: 7/10
+`;
+  if (questions.length > 0) {
+    base += `\n\nQUESTION BANK:\n${questions.map(q => `- ${q}`).join('\n')}\n`;
+  }
+  if (resume.trim()) {
+    base += `\n\nCANDIDATE RESUME:\n${resume.trim()}\n`;
+  }
+  if (jobContext.jobDescription.trim()) {
+    base += `\n\nJOB DESCRIPTION:\n${jobContext.jobDescription.trim()}\n`;
+  }
+  if (jobContext.companyNotes.trim()) {
+    base += `\n\nCOMPANY NOTES:\n${jobContext.companyNotes.trim()}\n`;
+  }
+  if (priorTurns.length > 0) {
+    base += `\n\nINTERVIEW SO FAR (the connection was restored mid-interview; continue with the next question and do not repeat these):\n${summarizePriorTurns(priorTurns)}\n`;
+  }
+  return base;
+}
+
+// Recognizes the debrief by its marker or closing score line. Once the debrief
+// has been asked for, whatever the model says next is taken as the debrief.
+export function parseDebrief(text: string, expectDebrief = false): MockDebrief | null {
+  const marker = text.match(DEBRIEF_MARKER);
+  const scoreMatch = text.match(SCORE_PATTERN);
+  if (!marker && !scoreMatch && !expectDebrief) return null;
+  const body = marker ? text.slice(marker.index! + marker[0].length) : text;
+  const spokenScore = scoreMatch ? SCORE_WORDS.indexOf(scoreMatch[1].toLowerCase()) : -1;
+  const score = scoreMatch ? Math.min(10, Math.max(0, spokenScore >= 0 ? spokenScore : parseFloat(scoreMatch[1]))) : null;
+  return { score, text: body.trim() };
+}
+
+export interface MockStep {
+  // The practice Turn closed by this step, if the candidate answered a question.
+  turn: Turn | null;
+  // What the interviewer is now waiting on an answer to.
+  pendingQuestion: string | null;
+  debrief: MockDebrief | null;
+}
+
+// Live turns alternate the other way round in a mock interview: each model
+// turn completes with the interviewer's *next* question, while the input
+// transcript holds the candidate's answer to the *previous* one. This pairs
+// them back up into practice Turns.
+export function advanceMockInterview(pendingQuestion: string | null, completed: Turn, expectDebrief = false): MockStep {
+  const spoken = completed.aiSuggested;
+  const answer = completed.interviewer.trim();
+  const turn: Turn | null = pendingQuestion && answer
+    ? {
+        id: completed.id,
+        role: 'practice',
+        interviewer: pendingQuestion,
+        aiSuggested: '',
+        candidateAnswer: answer,
+        timestamp: completed.timestamp,
+      }
+    : null;
+
+  const debrief = parseDebrief(spoken, expectDebrief);
+  if (debrief) {
+    return { turn, pendingQuestion: null, debrief };
+  }
+  // An unanswered question that gets rephrased keeps just the latest wording.
+  return { turn, pendingQuestion: spoken, debrief: null };
+}
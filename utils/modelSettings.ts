@@ -0,0 +1,89 @@
+import { AnswerLength, ModelSettings, ResponseModality } from '../types';
+
+export interface ModelOption {
+  id: string;
+  label: string;
+  modalities: ResponseModality[];
+}
+
+// Native-audio models only speak; the half-cascade live models can also
+// answer in text.
+export const MODEL_OPTIONS: ModelOption[] = [
+  { id: 'gemini-2.5-flash-native-audio-preview-12-2025', label: '2.5 Flash Native Audio', modalities: ['audio'] },
+  { id: 'gemini-live-2.5-flash-preview', label: '2.5 Flash Live', modalities: ['audio', 'text'] },
+  { id: 'gemini-2.0-flash-live-001', label: '2.0 Flash Live', modalities: ['audio', 'text'] },
+];
+
+// Live models don't serve request/response calls, so questions asked without
+// a live session go to this one.
+export const TEXT_ANSWER_MODEL = 'gemini-2.5-flash';
+
+export const VOICE_OPTIONS = ['Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Leda', 'Orus', 'Aoede'];
+
+export const ANSWER_LENGTHS: AnswerLength[] = ['short', 'medium', 'long'];
+
+export const ANSWER_LENGTH_LABELS: Record<AnswerLength, string> = {
+  short: 'Short',
+  medium: 'Medium',
+  long: 'Long',
+};
+
+export const ANSWER_LENGTH_GUIDANCE: Record<AnswerLength, string> = {
+  short: 'Keep every answer under about 60 words; the candidate needs something they can glance at.',
+  medium: 'Aim for about 120 words per answer.',
+  long: 'Answers can run to about 250 words when the question calls for depth.',
+};
+
+export const MIN_TEMPERATURE = 0;
+export const MAX_TEMPERATURE = 2;
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  model: MODEL_OPTIONS[0].id,
+  voiceName: 'Zephyr',
+  responseModality: 'audio',
+  answerLength: 'medium',
+  temperature: 1,
+  echoCancellation: true,
+  noiseSuppression: true,
+};
+
+export const getModelOption = (id: string) => MODEL_OPTIONS.find(m => m.id === id);
+
+// Problems that would make the next connect fail or behave unexpectedly.
+// Empty when the settings are usable.
+export function validateModelSettings(settings: ModelSettings): string[] {
+  const errors: string[] = [];
+  const model = getModelOption(settings.model);
+  if (!model) {
+    errors.push(`Unknown model "${settings.model}".`);
+  } else if (!model.modalities.includes(settings.responseModality)) {
+    errors.push(`${model.label} can't answer in ${settings.responseModality}. Pick a Live model or switch to audio.`);
+  }
+  if (!VOICE_OPTIONS.includes(settings.voiceName)) {
+    errors.push(`Unknown voice "${settings.voiceName}".`);
+  }
+  if (!Number.isFinite(settings.temperature) || settings.temperature < MIN_TEMPERATURE || settings.temperature > MAX_TEMPERATURE) {
+    errors.push(`Temperature must be between ${MIN_TEMPERATURE} and ${MAX_TEMPERATURE}.`);
+  }
+  return errors;
+}
+
+// Builds settings from stored or imported data, falling back to the default
+// for any field that is missing or not one of the allowed values.
+export function normalizeModelSettings(raw: unknown): ModelSettings {
+  const stored = (typeof raw === 'object' && raw !== null ? raw : {}) as Partial<Record<keyof ModelSettings, unknown>>;
+  const pick = <T>(value: unknown, allowed: readonly T[], fallback: T): T =>
+    allowed.includes(value as T) ? (value as T) : fallback;
+  const temperature = typeof stored.temperature === 'number' && Number.isFinite(stored.temperature)
+    ? Math.min(MAX_TEMPERATURE, Math.max(MIN_TEMPERATURE, stored.temperature))
+    : DEFAULT_MODEL_SETTINGS.temperature;
+  return {
+    model: pick(stored.model, MODEL_OPTIONS.map(m => m.id), DEFAULT_MODEL_SETTINGS.model),
+    voiceName: pick(stored.voiceName, VOICE_OPTIONS, DEFAULT_MODEL_SETTINGS.voiceName),
+    responseModality: pick<ResponseModality>(stored.responseModality, ['audio', 'text'], DEFAULT_MODEL_SETTINGS.responseModality),
+    answerLength: pick(stored.answerLength, ANSWER_LENGTHS, DEFAULT_MODEL_SETTINGS.answerLength),
+    temperature,
+    echoCancellation: typeof stored.echoCancellation === 'boolean' ? stored.echoCancellation : DEFAULT_MODEL_SETTINGS.echoCancellation,
+    noiseSuppression: typeof stored.noiseSuppression === 'boolean' ? stored.noiseSuppression : DEFAULT_MODEL_SETTINGS.noiseSuppression,
+  };
+}
@@ -0,0 +1,80 @@
+// Source of the AudioWorklet processor that turns device-rate float input into
+// batched 16 kHz PCM16. It is loaded from a Blob URL so it works regardless of
+// how the app is bundled or hosted.
+export const PCM_CAPTURE_PROCESSOR = 'pcm-capture-processor';
+
+export const PCM_CAPTURE_WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = options.processorOptions || {};
+    this.targetRate = opts.targetSampleRate || 16000;
+    this.chunkSize = opts.chunkSize || 2048;
+    this.ratio = sampleRate / this.targetRate;
+    this.position = 0;
+    this.previous = 0;
+    this.chunk = new Int16Array(this.chunkSize);
+    this.filled = 0;
+
+    // Second-order Butterworth low-pass just under the target Nyquist so
+    // decimation does not fold high frequencies back into the speech band.
+    this.filter = null;
+    if (this.ratio > 1) {
+      const w = 2 * Math.PI * (0.45 * this.targetRate) / sampleRate;
+      const alpha = Math.sin(w) / Math.SQRT2;
+      const cos = Math.cos(w);
+      const a0 = 1 + alpha;
+      this.filter = {
+        b0: (1 - cos) / 2 / a0, b1: (1 - cos) / a0, b2: (1 - cos) / 2 / a0,
+        a1: -2 * cos / a0, a2: (1 - alpha) / a0,
+        x1: 0, x2: 0, y1: 0, y2: 0,
+      };
+    }
+  }
+
+  lowpass(x) {
+    const f = this.filter;
+    if (!f) return x;
+    const y = f.b0 * x + f.b1 * f.x1 + f.b2 * f.x2 - f.a1 * f.y1 - f.a2 * f.y2;
+    f.x2 = f.x1; f.x1 = x;
+    f.y2 = f.y1; f.y1 = y;
+    return y;
+  }
+
+  push(sample) {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    // TPDF dither of +/- 1 LSB before quantizing.
+    const dithered = clamped * 32767 + (Math.random() - Math.random());
+    this.chunk[this.filled++] = Math.max(-32768, Math.min(32767, Math.round(dithered)));
+    if (this.filled === this.chunkSize) this.flush();
+  }
+
+  flush() {
+    if (this.filled === 0) return;
+    const out = this.chunk.slice(0, this.filled);
+    this.port.postMessage(out, [out.buffer]);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+    const data = input[0];
+
+    // Linear interpolation between filtered samples; position carries the
+    // fractional read offset across render quanta.
+    for (let i = 0; i < data.length; i++) {
+      const current = this.lowpass(data[i]);
+      while (this.position < 1) {
+        this.push(this.previous + (current - this.previous) * this.position);
+        this.position += this.ratio;
+      }
+      this.position -= 1;
+      this.previous = current;
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PCM_CAPTURE_PROCESSOR}', PcmCaptureProcessor);
+`;
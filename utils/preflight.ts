@@ -0,0 +1,103 @@
+import { decode } from './audio';
+import { applyOutputDevice, openMicrophone } from './audioDevices';
+import { CAPTURE_SAMPLE_RATE, startAudioCapture } from './audioCapture';
+import { MIN_LEVEL_DB, toDecibels } from './vad';
+
+export const PREFLIGHT_DURATION_MS = 3000;
+
+// Loudest 100 ms window below this means nothing usable reached the mic.
+const SILENT_DB = -50;
+// Speech peaking below this is likely too quiet to transcribe reliably.
+const QUIET_DB = -35;
+// Samples at or above this magnitude count as clipped.
+const CLIP_SAMPLE = 32000;
+const MAX_CLIPPED_RATIO = 0.001;
+const WINDOW_SAMPLES = CAPTURE_SAMPLE_RATE / 10;
+
+export type PreflightVerdict = 'ok' | 'silent' | 'quiet' | 'clipping';
+
+export interface PreflightAnalysis {
+  verdict: PreflightVerdict;
+  // Level of the loudest 100 ms window, in dBFS.
+  peakWindowDb: number;
+  clippedRatio: number;
+  message: string;
+}
+
+export interface PreflightRecording extends PreflightAnalysis {
+  samples: Int16Array;
+}
+
+export function analyzePreflight(samples: Int16Array): PreflightAnalysis {
+  let peakWindowDb = MIN_LEVEL_DB;
+  let clipped = 0;
+  for (let start = 0; start < samples.length; start += WINDOW_SAMPLES) {
+    const end = Math.min(samples.length, start + WINDOW_SAMPLES);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      const s = samples[i] / 32768;
+      sum += s * s;
+      if (Math.abs(samples[i]) >= CLIP_SAMPLE) clipped++;
+    }
+    peakWindowDb = Math.max(peakWindowDb, toDecibels(Math.sqrt(sum / (end - start))));
+  }
+  const clippedRatio = samples.length > 0 ? clipped / samples.length : 0;
+
+  if (peakWindowDb < SILENT_DB) {
+    return { verdict: 'silent', peakWindowDb, clippedRatio, message: 'No signal. Check that this is the right mic and that it isn\'t muted.' };
+  }
+  if (clippedRatio > MAX_CLIPPED_RATIO) {
+    return { verdict: 'clipping', peakWindowDb, clippedRatio, message: 'Input is clipping. Lower the mic gain or move it further away.' };
+  }
+  if (peakWindowDb < QUIET_DB) {
+    return { verdict: 'quiet', peakWindowDb, clippedRatio, message: 'Input is very quiet. Move closer or raise the mic gain.' };
+  }
+  return { verdict: 'ok', peakWindowDb, clippedRatio, message: 'Sounds good.' };
+}
+
+// Records a few seconds from the chosen input at the capture rate the live
+// session uses, reporting levels as it goes.
+export async function recordPreflight(
+  inputId: string,
+  onLevel: (levelDb: number) => void,
+  durationMs = PREFLIGHT_DURATION_MS,
+): Promise<PreflightRecording> {
+  const stream = await openMicrophone(inputId);
+  const chunks: Int16Array[] = [];
+  try {
+    const capture = await startAudioCapture(stream, (chunk, rms) => {
+      const bytes = decode(chunk.data);
+      chunks.push(new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 2));
+      onLevel(toDecibels(rms));
+    });
+    await new Promise(resolve => setTimeout(resolve, durationMs));
+    capture.stop();
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+    onLevel(MIN_LEVEL_DB);
+  }
+
+  const samples = new Int16Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    samples.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { ...analyzePreflight(samples), samples };
+}
+
+export async function playPreflight(samples: Int16Array, outputId: string): Promise<void> {
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  await applyOutputDevice(context, outputId);
+  const buffer = context.createBuffer(1, Math.max(1, samples.length), CAPTURE_SAMPLE_RATE);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) data[i] = samples[i] / 32768;
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  await new Promise<void>(resolve => {
+    source.onended = () => resolve();
+    source.start();
+  });
+  context.close();
+}
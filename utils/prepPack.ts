@@ -0,0 +1,178 @@
+import { PrepItem, PrepPack } from '../types';
+import { classifyQuestion } from './questionClassifier';
+import { QUESTION_TYPES } from './promptTemplates';
+import { getResumeVersion } from './resume';
+
+export const PREP_QUESTION_COUNT = 10;
+// Matches below this confidence aren't shown.
+export const PREP_MATCH_THRESHOLD = 0.6;
+// Share of the interviewer's words the prepared question must account for,
+// so a short prepared question can't match a longer, different one.
+const MIN_EXPLAINED_SHARE = 0.5;
+
+export function emptyPrepPack(): PrepPack {
+  return { items: [], resumeVersion: null, generatedAt: null };
+}
+
+export function createPrepItem(question: string, answer = '', usedSegments: string[] = [], now = Date.now()): PrepItem {
+  return {
+    id: `prep-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    question,
+    answer,
+    questionType: classifyQuestion(question),
+    usedSegments,
+    updatedAt: now,
+  };
+}
+
+// Drops malformed items from stored or imported packs.
+export function normalizePrepPack(stored: unknown): PrepPack {
+  const pack = stored as Partial<PrepPack> | undefined;
+  if (!pack || typeof pack !== 'object' || !Array.isArray(pack.items)) return emptyPrepPack();
+  const items = pack.items
+    .filter((item): item is PrepItem => !!item && typeof item.question === 'string' && typeof item.answer === 'string')
+    .map(item => ({
+      id: typeof item.id === 'string' ? item.id : createPrepItem(item.question).id,
+      question: item.question,
+      answer: item.answer,
+      questionType: QUESTION_TYPES.includes(item.questionType) ? item.questionType : classifyQuestion(item.question),
+      usedSegments: Array.isArray(item.usedSegments) ? item.usedSegments.filter((s): s is string => typeof s === 'string') : [],
+      ...(item.isEdited ? { isEdited: true } : {}),
+      updatedAt: typeof item.updatedAt === 'number' ? item.updatedAt : 0,
+    }));
+  return {
+    items,
+    resumeVersion: typeof pack.resumeVersion === 'string' ? pack.resumeVersion : null,
+    generatedAt: typeof pack.generatedAt === 'number' ? pack.generatedAt : null,
+  };
+}
+
+// Whether the resume changed after the questions were predicted.
+export function isPrepPackStale(pack: PrepPack, resume: string): boolean {
+  return pack.resumeVersion !== null && pack.resumeVersion !== getResumeVersion(resume);
+}
+
+// Sent with the usual system instruction, so the model sees the resume and job
+// context it should predict from. Answers are generated one question at a time
+// afterwards, through the regular answer request.
+export function buildPrepQuestionsRequest(count: number = PREP_QUESTION_COUNT): string {
+  return `Before the interview starts, predict the ${count} questions this interviewer is most likely to ask the candidate.
+Base them on the job description, company notes, interviewers and resume above. Include the usual openers, behavioral questions about specific projects on the resume and questions on the role's key requirements.
+Reply with one question per line and nothing else: no numbering, no answers, no commentary, no RESUME_USAGE block.`;
+}
+
+const LIST_MARKER = /^\s*(?:\d+[.)]|[-*•])\s*/;
+// Questions, and the prompts interviewers phrase as requests ("Tell me about yourself.").
+const QUESTION_LINE = /\w.*\?$|^(?:tell|describe|walk|give|talk|explain|share|take)\b/i;
+
+// One question per line, tolerating list markers and emphasis the model adds
+// anyway. Lines that read as questions are taken when there are any, so
+// preambles ("Here are the questions:") and notes are dropped; otherwise any
+// line of a few words that doesn't introduce a list. Duplicates are dropped.
+export function parsePredictedQuestions(raw: string, limit: number = PREP_QUESTION_COUNT): string[] {
+  const lines = raw
+    .split('\n')
+    .map(line => line.replace(LIST_MARKER, '').replace(/\*\*|__/g, '').replace(/^["“]|["”]$/g, '').trim())
+    .filter(line => line && !line.endsWith(':'));
+  const asked = lines.filter(line => QUESTION_LINE.test(line));
+  const candidates = asked.length > 0 ? asked : lines.filter(line => line.split(/\s+/).length >= 3);
+
+  const seen = new Set<string>();
+  const questions: string[] = [];
+  for (const question of candidates) {
+    const key = question.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    questions.push(question);
+    if (questions.length >= limit) break;
+  }
+  return questions;
+}
+
+// Words that say nothing about which question it is, including the stock
+// phrasing many questions share ("tell me about a time...").
+const FILLER_WORDS = new Set([
+  'the', 'and', 'for', 'that', 'with', 'this', 'from', 'have', 'was', 'were', 'are', 'but', 'not', 'you', 'your',
+  'our', 'they', 'their', 'then', 'than', 'into', 'about', 'what', 'when', 'which', 'will', 'would', 'could',
+  'should', 'been', 'just', 'some', 'there', 'here', 'how', 'why', 'who', 'can', 'did', 'had', 'has', 'any',
+  'tell', 'me', 'describe', 'time', 'give', 'example', 'walk', 'through', 'talk', 'please', 'okay', 'great',
+  'thanks', 'thank', 'so', 'next', 'question', 'let', 'like', 'know', 'we', 'us', 'is', 'a', 'an', 'of', 'to',
+  'in', 'on', 'it', 'do', 'or', 'be', 'at', 'as', 'if', 'my', 'i', 'kind', 'sort', 'maybe', 'little', 'bit',
+  'start', 'first', 'go', 'ahead', 'kick', 'off', 'now', 'well', 'alright', 'right', 'sure',
+]);
+
+const stem = (word: string) => word.length > 4 ? word.replace(/(?:ing|ed|es|s)$/, '') : word;
+
+const terms = (text: string) =>
+  (text.toLowerCase().match(/[a-z0-9']+/g) ?? [])
+    .map(word => word.replace(/'s$|'/g, ''))
+    .filter(word => word && !FILLER_WORDS.has(word))
+    .map(stem);
+
+// Edit distance of at most one, for words the transcription got slightly wrong.
+function isNearMiss(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+const termsMatch = (a: string, b: string) => a === b || (a.length >= 5 && b.length >= 5 && isNearMiss(a, b));
+
+export interface PrepMatch {
+  item: PrepItem;
+  // 0-1: Dice similarity of the prepared question's terms and the matched
+  // part of the transcript.
+  confidence: number;
+}
+
+// The transcript's trailing sentences, shortest first: the question usually
+// ends what the interviewer said, after small talk that shouldn't count
+// against the match.
+function trailingWindows(transcript: string): string[][] {
+  const sentences = transcript.split(/(?<=[.?!])\s+/);
+  const windows: string[][] = [];
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    const window = terms(sentences.slice(i).join(' '));
+    if (window.length > 0 && window.length !== windows[windows.length - 1]?.length) windows.push(window);
+  }
+  return windows;
+}
+
+// The prepared question the interviewer's words best match, if any clears
+// PREP_MATCH_THRESHOLD. Cheap enough to run on every transcript update.
+export function matchPrepItem(transcript: string, items: PrepItem[]): PrepMatch | null {
+  const windows = trailingWindows(transcript);
+  if (windows.length === 0) return null;
+  let best: PrepMatch | null = null;
+  for (const item of items) {
+    if (!item.answer.trim()) continue;
+    const prepared = terms(item.question);
+    if (prepared.length === 0) continue;
+    for (const spoken of windows) {
+      const covered = prepared.filter(term => spoken.some(s => termsMatch(s, term))).length;
+      const explained = spoken.filter(term => prepared.some(p => termsMatch(p, term))).length;
+      if (explained / spoken.length < MIN_EXPLAINED_SHARE) continue;
+      const confidence = (covered + explained) / (prepared.length + spoken.length);
+      if (confidence >= PREP_MATCH_THRESHOLD && (!best || confidence > best.confidence)) {
+        best = { item, confidence };
+      }
+    }
+  }
+  return best;
+}
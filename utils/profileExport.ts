@@ -0,0 +1,90 @@
+import { CandidateProfile, InterviewSession } from '../types';
+import { SessionImportError, isRecord, repairJobContext, repairSession } from './sessionExport';
+import { createProfile, normalizePreferences } from './profileStore';
+import { generateSessionId } from './sessionStore';
+import { QUESTION_TYPES } from './promptTemplates';
+import { normalizeModelSettings } from './modelSettings';
+import { normalizeRedactionSettings } from './redaction';
+import { normalizePrepPack } from './prepPack';
+
+const PROFILE_FORMAT = 'interview-copilot-profile';
+const PROFILE_VERSION = 1;
+
+export interface ProfileImportResult {
+  profile: CandidateProfile;
+  sessions: InterviewSession[];
+  warnings: string[];
+}
+
+export function exportProfileJson(profile: CandidateProfile, sessions: InterviewSession[]): string {
+  return JSON.stringify({ format: PROFILE_FORMAT, version: PROFILE_VERSION, profile, sessions }, null, 2);
+}
+
+// Imported profiles and their sessions always get fresh IDs, so importing on
+// the machine they came from adds a copy instead of overwriting anything.
+export function parseProfileImport(text: string): ProfileImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new SessionImportError('File is not valid JSON.');
+  }
+  if (!isRecord(parsed) || parsed.format !== PROFILE_FORMAT) {
+    throw new SessionImportError('Not a profile export.');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > PROFILE_VERSION) {
+    throw new SessionImportError('This export was made by a newer version of the app.');
+  }
+  const raw = parsed.profile;
+  if (!isRecord(raw)) {
+    throw new SessionImportError('No profile record found in file.');
+  }
+
+  const warnings: string[] = [];
+  const preferences = normalizePreferences(undefined);
+  if (isRecord(raw.preferences)) {
+    const stored = raw.preferences;
+    if (typeof stored.talkingPoints === 'string') preferences.talkingPoints = stored.talkingPoints;
+    if (typeof stored.questionBank === 'string') preferences.questionBank = stored.questionBank;
+    if (isRecord(stored.templates)) {
+      if (typeof stored.templates.system === 'string') preferences.templates.system = stored.templates.system;
+      if (isRecord(stored.templates.types)) {
+        for (const type of QUESTION_TYPES) {
+          const text = stored.templates.types[type];
+          if (typeof text === 'string') preferences.templates.types[type] = text;
+        }
+      }
+    }
+  }
+  const profile = createProfile(
+    typeof raw.name === 'string' && raw.name.trim() ? raw.name : 'Imported profile',
+    {
+      resume: typeof raw.resume === 'string' ? raw.resume : '',
+      jobContext: repairJobContext(raw.jobContext),
+      preferences,
+      modelSettings: normalizeModelSettings(raw.modelSettings),
+      redaction: normalizeRedactionSettings(raw.redaction),
+      prepPack: normalizePrepPack(raw.prepPack),
+    },
+  );
+
+  const sessions: InterviewSession[] = [];
+  const rawSessions = Array.isArray(parsed.sessions) ? parsed.sessions : [];
+  rawSessions.forEach((rawSession, i) => {
+    const sessionWarnings: string[] = [];
+    try {
+      const session = repairSession(rawSession, sessionWarnings);
+      sessions.push({ ...session, id: generateSessionId(session.startedAt), profileId: profile.id });
+      warnings.push(...sessionWarnings.map(w => `Session ${i + 1}: ${w}`));
+    } catch (e: any) {
+      warnings.push(`Session ${i + 1}: ${e.message}, skipped.`);
+    }
+  });
+
+  return { profile, sessions, warnings };
+}
+
+export function getProfileExportFilename(profile: CandidateProfile): string {
+  const slug = profile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'profile';
+  return `${slug}.profile.json`;
+}
@@ -0,0 +1,109 @@
+import { CandidateProfile, InterviewSession, JobContext, ModelSettings, PrepPack, PromptPreferences, RedactionSettings } from '../types';
+import { emptyJobContext } from './jobContext';
+import { DEFAULT_QUESTION_BANK } from './mockInterview';
+import { defaultPromptTemplates } from './promptTemplates';
+import { DEFAULT_MODEL_SETTINGS, normalizeModelSettings } from './modelSettings';
+import { defaultRedactionSettings, normalizeRedactionSettings } from './redaction';
+import { emptyPrepPack, normalizePrepPack } from './prepPack';
+import { readSecureItem, writeSecureItem } from './vault';
+
+const PROFILES_KEY = 'interview_profiles';
+const ACTIVE_PROFILE_KEY = 'interview_active_profile';
+// Keys used before profiles existed; read once to seed the first profile.
+const LEGACY_RESUME_KEY = 'interview_resume';
+const LEGACY_JOB_CONTEXT_KEY = 'interview_job_context';
+
+export function emptyPromptPreferences(): PromptPreferences {
+  return { talkingPoints: '', questionBank: DEFAULT_QUESTION_BANK, templates: defaultPromptTemplates() };
+}
+
+// Fills in preferences added after a profile was saved, down to individual
+// question-type templates.
+export function normalizePreferences(stored: Partial<PromptPreferences> | undefined): PromptPreferences {
+  const defaults = emptyPromptPreferences();
+  return {
+    ...defaults,
+    ...stored,
+    templates: {
+      ...defaults.templates,
+      ...stored?.templates,
+      types: { ...defaults.templates.types, ...stored?.templates?.types },
+    },
+  };
+}
+
+export function generateProfileId(): string {
+  return `p-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createProfile(
+  name: string,
+  init: { resume?: string; jobContext?: JobContext; preferences?: PromptPreferences; modelSettings?: ModelSettings; redaction?: RedactionSettings; prepPack?: PrepPack } = {},
+): CandidateProfile {
+  const now = Date.now();
+  return {
+    id: generateProfileId(),
+    name,
+    resume: init.resume ?? '',
+    jobContext: init.jobContext ?? emptyJobContext(),
+    preferences: init.preferences ?? emptyPromptPreferences(),
+    modelSettings: init.modelSettings ?? { ...DEFAULT_MODEL_SETTINGS },
+    redaction: init.redaction ?? defaultRedactionSettings(),
+    prepPack: init.prepPack ?? emptyPrepPack(),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Always returns at least one profile. The first run after upgrading moves
+// the single stored resume and job context into a "Default" profile. When
+// local data is encrypted, this must run after the vault is unlocked.
+export function loadProfiles(): CandidateProfile[] {
+  try {
+    const stored = JSON.parse(readSecureItem(PROFILES_KEY) || 'null');
+    if (Array.isArray(stored) && stored.length > 0) {
+      return stored.map((p: CandidateProfile) => ({
+        ...p,
+        jobContext: { ...emptyJobContext(), ...p.jobContext },
+        preferences: normalizePreferences(p.preferences),
+        modelSettings: normalizeModelSettings(p.modelSettings),
+        redaction: normalizeRedactionSettings(p.redaction),
+        prepPack: normalizePrepPack(p.prepPack),
+      }));
+    }
+  } catch (e) {
+    console.error("Failed to load profiles", e);
+  }
+
+  let legacyJobContext = emptyJobContext();
+  try {
+    legacyJobContext = { ...legacyJobContext, ...JSON.parse(localStorage.getItem(LEGACY_JOB_CONTEXT_KEY) || '{}') };
+  } catch {
+    // Unreadable legacy data just means starting from an empty job context.
+  }
+  const migrated = createProfile('Default', {
+    resume: localStorage.getItem(LEGACY_RESUME_KEY) || '',
+    jobContext: legacyJobContext,
+  });
+  saveProfiles([migrated]);
+  localStorage.removeItem(LEGACY_RESUME_KEY);
+  localStorage.removeItem(LEGACY_JOB_CONTEXT_KEY);
+  return [migrated];
+}
+
+export function saveProfiles(profiles: CandidateProfile[]) {
+  writeSecureItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export function loadActiveProfileId(profiles: CandidateProfile[]): string {
+  const stored = localStorage.getItem(ACTIVE_PROFILE_KEY);
+  return profiles.some(p => p.id === stored) ? stored! : profiles[0].id;
+}
+
+export function saveActiveProfileId(id: string) {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+}
+
+export function sessionBelongsToProfile(session: InterviewSession, profileId: string, profiles: CandidateProfile[]): boolean {
+  return session.profileId ? session.profileId === profileId : profiles[0]?.id === profileId;
+}
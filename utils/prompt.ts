@@ -0,0 +1,97 @@
+import { AnswerLength, JobContext, PromptPreferences, PromptTemplates, QuestionType, Turn } from '../types';
+import { chunkResume, formatChunksForPrompt } from './resume';
+import { chunkJobDescription } from './jobContext';
+import { QUESTION_TYPE_LABELS, defaultPromptTemplates, formatQuestionRules, renderTemplate } from './promptTemplates';
+import { ANSWER_LENGTH_GUIDANCE } from './modelSettings';
+
+const MAX_SUMMARY_TURNS = 6;
+const MAX_SUMMARY_CHARS = 220;
+
+// Appended to every rendered template: citation parsing depends on it, so it
+// is not part of the user-editable text.
+const CITATION_INSTRUCTION = `
+CITATIONS:
+Every line of the 'CANDIDATE RESUME CONTEXT' and 'JOB DESCRIPTION' starts with a chunk ID in square brackets, e.g. [c_1a2b3c] or [j_7a8b9c].
+At the very end of your response, after a double newline, list the IDs of the resume chunks you actually used and the job requirements your answer addresses. 
+Use only IDs that appear in the context, copied exactly. Format it exactly like this:
+RESUME_USAGE: ["c_1a2b3c", "c_4d5e6f", "j_7a8b9c"]
+`;
+
+const truncate = (text: string, max: number) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+};
+
+// Compact recap of the most recent turns, used when a dropped connection is
+// re-established so the model keeps the thread of the interview.
+export function summarizePriorTurns(turns: Turn[]): string {
+  const recent = turns.slice(-MAX_SUMMARY_TURNS);
+  const skipped = turns.length - recent.length;
+  const lines = recent.map((t, i) => {
+    const answer = t.role === 'practice' ? t.candidateAnswer || '' : t.aiSuggested;
+    const type = t.questionType ? ` (${QUESTION_TYPE_LABELS[t.questionType]})` : '';
+    return `${skipped + i + 1}. Q${type}: ${truncate(t.interviewer, MAX_SUMMARY_CHARS)}\n   A: ${truncate(answer, MAX_SUMMARY_CHARS)}`;
+  });
+  if (skipped > 0) {
+    lines.unshift(`(${skipped} earlier question${skipped === 1 ? '' : 's'} omitted)`);
+  }
+  return lines.join('\n');
+}
+
+export interface PromptContext {
+  resume: string;
+  jobContext: JobContext;
+  preferences?: PromptPreferences;
+  priorTurns?: Turn[];
+  // Appended after the template, like the citation rules, so it applies to
+  // custom templates too.
+  answerLength?: AnswerLength;
+}
+
+function formatJobContext(jobContext: JobContext): string {
+  const sections: string[] = [];
+  if (jobContext.jobDescription.trim()) {
+    sections.push(`JOB DESCRIPTION:\n${formatChunksForPrompt(chunkJobDescription(jobContext))}`);
+  }
+  if (jobContext.companyNotes.trim()) {
+    sections.push(`COMPANY NOTES:\n${jobContext.companyNotes.trim()}`);
+  }
+  if (jobContext.interviewers.trim()) {
+    sections.push(`INTERVIEWERS:\n${jobContext.interviewers.trim()}`);
+  }
+  return sections.join('\n\n');
+}
+
+export function buildSystemInstruction({ resume, jobContext, preferences, priorTurns = [], answerLength }: PromptContext): string {
+  const templates = preferences?.templates ?? defaultPromptTemplates();
+  const variables: Record<string, string> = {
+    questionRules: formatQuestionRules(templates.types),
+    resume: resume.trim() ? `CANDIDATE RESUME CONTEXT:\n${formatChunksForPrompt(chunkResume(resume))}` : '',
+    jobContext: formatJobContext(jobContext),
+    talkingPoints: preferences?.talkingPoints.trim()
+      ? `CANDIDATE TALKING POINTS (work these in where they fit and follow any tone guidance):\n${preferences.talkingPoints.trim()}`
+      : '',
+    priorTurns: priorTurns.length > 0
+      ? `INTERVIEW SO FAR (the connection was restored mid-interview; continue from here and do not repeat these answers):\n${summarizePriorTurns(priorTurns)}`
+      : '',
+  };
+  const length = answerLength ? `\nANSWER LENGTH: ${ANSWER_LENGTH_GUIDANCE[answerLength]}\n` : '';
+  return `${renderTemplate(templates.system, variables)}\n${length}${CITATION_INSTRUCTION}`;
+}
+
+// Text sent when the candidate asks for an answer by hand. The classified
+// question type's template is restated so it wins over the model's own guess.
+export function buildAnswerRequest(question: string, type: QuestionType, templates: PromptTemplates): string {
+  const style = templates.types[type]?.trim();
+  const lead = style ? `This is a ${QUESTION_TYPE_LABELS[type].toLowerCase()} question. ${style}\n` : '';
+  return `${lead}Answer this interviewer question based on my resume: "${question}"`;
+}
+
+// Sent into a live session once the interviewer's spoken question has been
+// transcribed, so the answer the model gives on its own follows the matching
+// type template too. Null when that template is empty.
+export function buildTurnInstruction(type: QuestionType, templates: PromptTemplates): string | null {
+  const style = templates.types[type]?.trim();
+  if (!style) return null;
+  return `The interviewer's question you just heard is a ${QUESTION_TYPE_LABELS[type].toLowerCase()} question. ${style}\nAnswer it now.`;
+}
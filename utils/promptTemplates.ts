@@ -0,0 +1,72 @@
+import { PromptTemplates, QuestionType } from '../types';
+
+export const QUESTION_TYPES: QuestionType[] = ['behavioral', 'coding', 'system_design', 'product', 'logistics', 'general'];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  behavioral: 'Behavioral',
+  coding: 'Coding',
+  system_design: 'System Design',
+  product: 'Product',
+  logistics: 'Salary & Logistics',
+  general: 'General',
+};
+
+// Variables available in the system template. Each renders to a full section
+// with its heading, or to nothing when there is no content for it.
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'questionRules', description: 'Answer style for every question type' },
+  { name: 'resume', description: 'Resume, one cited chunk per line' },
+  { name: 'jobContext', description: 'Job description, company notes and interviewers' },
+  { name: 'talkingPoints', description: 'Talking points from the Notes tab' },
+  { name: 'priorTurns', description: 'Recap of the interview so far, with question types. Only filled when a dropped connection is restored: the live session remembers its own turns' },
+];
+
+export const DEFAULT_SYSTEM_TEMPLATE = `You are an expert real-time interview co-pilot.
+You will receive live transcriptions of an interviewer's questions.
+Your goal is to provide immediate, high-impact suggested answers for the candidate to use.
+
+RULES:
+- Use simple, direct, conversational language that is easy to read out loud.
+- STRICTLY NO FILLER. Do not say "Here is a response" or "I can help with that."
+- PERSONALIZATION: Incorporate specific projects, skills, and experiences from the provided resume context.
+- ROLE FIT: When a job description is provided, steer answers toward the requirements it lists and the company context.
+
+ANSWER STYLE BY QUESTION TYPE:
+{{questionRules}}
+
+{{resume}}
+
+{{jobContext}}
+
+{{talkingPoints}}
+
+{{priorTurns}}`;
+
+export const DEFAULT_TYPE_TEMPLATES: Record<QuestionType, string> = {
+  behavioral: 'Use a concise bulleted STAR method (Situation, Task, Action, Result) summary. Lead with a quantified result when there is one.',
+  coding: 'State the approach and its time and space complexity first, then give clean, exact code (Python unless the interviewer names a language). Call out edge cases.',
+  system_design: 'Cover requirements, API, data model and high-level components, then the scaling bottlenecks and trade-offs. Keep each part to short bullets.',
+  product: 'Clarify the user and the goal, propose two or three options, pick one with the metric that would prove it worked, and name the main risk.',
+  logistics: 'Give a short, polite, non-committal answer. For compensation, defer to the full package or give a researched range; never volunteer a number below the one in the talking points.',
+  general: 'Answer directly in two to four sentences, tying back to the candidate\'s experience where it fits.',
+};
+
+export function defaultPromptTemplates(): PromptTemplates {
+  return { system: DEFAULT_SYSTEM_TEMPLATE, types: { ...DEFAULT_TYPE_TEMPLATES } };
+}
+
+export function formatQuestionRules(types: Record<QuestionType, string>): string {
+  return QUESTION_TYPES
+    .filter(type => types[type]?.trim())
+    .map(type => `- ${QUESTION_TYPE_LABELS[type].toUpperCase()}: ${types[type].trim()}`)
+    .join('\n');
+}
+
+// Replaces {{name}} placeholders. Unknown names are left in place so a typo
+// is visible in the rendered prompt rather than silently dropped.
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => (name in variables ? variables[name] : match))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
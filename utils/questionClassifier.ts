@@ -0,0 +1,45 @@
+import { QuestionType } from '../types';
+
+// Keyword cues per type. Each matching pattern adds its weight; the
+// highest-scoring type wins and ties go to the earlier entry.
+const CUES: [Exclude<QuestionType, 'general'>, [RegExp, number][]][] = [
+  ['logistics', [
+    [/\b(salary|compensation|comp|pay|paid|equity|stock|bonus|benefits)\b/, 3],
+    [/\b(notice period|start date|when can you start|availability|relocat\w*|visa|sponsor\w*|remote|hybrid|on-?site)\b/, 3],
+    [/\bexpectations?\b/, 1],
+  ]],
+  ['system_design', [
+    [/\bdesign (a|an|the)\b/, 3],
+    [/\b(architecture|architect|scalab\w*|scale|distributed|throughput|sharding|partition\w*|replication|load balanc\w*|cach(e|ing)|queue|microservices?)\b/, 2],
+    [/\b(million|billion) (users|requests)|high availability|rate limit\w*\b/, 2],
+  ]],
+  ['coding', [
+    [/\b(write|implement|code) (a|an|the)? ?(function|method|class|algorithm|program|query)\b/, 3],
+    [/\b(algorithm|complexity|big[- ]o|recursion|recursive|dynamic programming)\b/, 2],
+    [/\b(array|linked list|hash ?map|binary (tree|search)|graph|stack|heap|string|substring|palindrome|sort\w*)\b/, 1],
+    [/\b(sql|regex|leetcode|debug)\b/, 2],
+  ]],
+  ['product', [
+    [/\b(product|feature|roadmap|launch|metric|kpi|north star|user research|customers?|market)\b/, 2],
+    [/\bhow would you (improve|measure|prioriti[sz]e)\b/, 2],
+  ]],
+  ['behavioral', [
+    [/\b(tell me about a time|describe a (time|situation)|give me an example|walk me through a time)\b/, 4],
+    [/\b(conflict|disagree\w*|fail\w*|mistake|proud|challenge|difficult|feedback|teammates?|manager|lead(ership)?|mentor\w*)\b/, 1],
+    [/\b(tell me about yourself|why (do you want|are you interested|this (company|role))|strengths?|weakness\w*)\b/, 3],
+  ]],
+];
+
+export function classifyQuestion(question: string): QuestionType {
+  const text = question.toLowerCase();
+  let best: QuestionType = 'general';
+  let bestScore = 0;
+  for (const [type, cues] of CUES) {
+    const score = cues.reduce((sum, [pattern, weight]) => sum + (pattern.test(text) ? weight : 0), 0);
+    if (score > bestScore) {
+      best = type;
+      bestScore = score;
+    }
+  }
+  return best;
+}
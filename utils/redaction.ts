@@ -0,0 +1,147 @@
+import { PiiKind, RedactionSettings } from '../types';
+
+export const PII_KINDS: PiiKind[] = ['name', 'email', 'phone', 'address', 'link'];
+
+export const PII_LABELS: Record<PiiKind, string> = {
+  name: 'Your name',
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  address: 'Street addresses',
+  link: 'Profile links',
+};
+
+// What each kind is replaced with. The brackets keep the model from treating
+// them as real details, and the preview highlights them.
+export const PII_PLACEHOLDERS: Record<PiiKind, string> = {
+  name: '[NAME]',
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  address: '[ADDRESS]',
+  link: '[PROFILE LINK]',
+};
+
+export function defaultRedactionSettings(): RedactionSettings {
+  return { kinds: [...PII_KINDS], name: '' };
+}
+
+export function normalizeRedactionSettings(stored: unknown): RedactionSettings {
+  const settings = stored as Partial<RedactionSettings> | undefined;
+  const name = typeof settings?.name === 'string' ? settings.name : '';
+  if (!Array.isArray(settings?.kinds)) return { ...defaultRedactionSettings(), name };
+  const kinds = settings.kinds;
+  return { kinds: PII_KINDS.filter(kind => kinds.includes(kind)), name };
+}
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const LINK = /\b(?:https?:\/\/)?(?:www\.)?(?:linkedin\.com|github\.com|gitlab\.com|twitter\.com|x\.com|medium\.com|behance\.net|dribbble\.com)\/[^\s)\],;]+/gi;
+// Loose on purpose; candidates are then checked by shape below.
+const PHONE = /(?<![\w+])\+?\(?\d[\d\s().-]{7,}\d(?!\w)/g;
+// What a phone number looks like: international with a leading +, North
+// American 3-3-4 groups, or a national number with a leading trunk 0.
+const PHONE_SHAPES = [
+  /^\+\d/,
+  /^(?:1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}$/,
+  /^0\d{2,4}[\s.-]?\d{3,4}[\s.-]?\d{3,4}$/,
+];
+// "2018.01 - 2020.12", "2019-2021": dates and date ranges on a resume.
+const DATE_PART = /\b(?:19|20)\d{2}(?:[./-](?:0?[1-9]|1[0-2])\b|\s*[-–]\s*(?:19|20)\d{2}\b)/;
+// "ISO 27001 27002": separate 4-5 digit numbers, not one grouped number.
+const NUMBER_RUN = /^\d{4,5}(?:\s+\d{4,5})+$/;
+const STREET = /\b\d{1,6}\s+(?:[A-Z][\w'.-]*\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Circle|Parkway|Pkwy|Highway|Hwy)\b\.?(?:,?\s*(?:Apt|Apartment|Suite|Ste|Unit|#)\.?\s*[\w-]+)?/g;
+// "Springfield, IL 62704": a US state and ZIP code.
+const STATE_ZIP = /\b[A-Z][a-zA-Z .]+,\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/g;
+// Two to four capitalized words; middle initials ("Jane Q Doe", "Jane Q. Doe") count.
+const NAME_LINE = /^[A-Z][a-zA-Z'’.-]+(?:\s+[A-Z][a-zA-Z'’.-]*){1,3}$/;
+// Words that make a capitalized first line a title or heading, not a name.
+const HEADING_WORDS = new Set([
+  'resume', 'résumé', 'cv', 'curriculum', 'vitae', 'profile', 'professional', 'summary', 'experience', 'objective',
+  'contact', 'information', 'details', 'personal', 'career', 'work', 'history', 'skills', 'education', 'about',
+  'software', 'senior', 'junior', 'lead', 'staff', 'principal', 'chief', 'head', 'engineer', 'engineering',
+  'developer', 'development', 'manager', 'management', 'director', 'designer', 'analyst', 'scientist',
+  'consultant', 'architect', 'product', 'project', 'data', 'full', 'stack', 'frontend', 'backend', 'web',
+  'marketing', 'sales', 'operations', 'specialist', 'associate', 'intern', 'officer', 'executive', 'administrator',
+]);
+
+const isPhoneNumber = (text: string) => {
+  const candidate = text.trim();
+  const digits = candidate.replace(/\D/g, '').length;
+  return digits >= 10 && digits <= 15
+    && PHONE_SHAPES.some(shape => shape.test(candidate))
+    && !DATE_PART.test(candidate)
+    && !NUMBER_RUN.test(candidate);
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A guess at the candidate's name: the first line of the resume, when it reads
+// like a name rather than a title or heading ("Software Engineer").
+export function detectCandidateName(resume: string): string | null {
+  const first = resume.split('\n').map(line => line.trim()).find(Boolean);
+  if (!first || !NAME_LINE.test(first)) return null;
+  return first.split(/\s+/).some(word => HEADING_WORDS.has(word.toLowerCase())) ? null : first;
+}
+
+// The names to mask. An entered name is masked in full and by surname; first
+// names alone are too often ordinary words ("Will", "Grant") to mask safely.
+// A guessed name is masked only in full, so a wrong guess can't mask a word
+// that merely follows a first name.
+export function getCandidateNames(settings: RedactionSettings, resume: string): string[] {
+  const entered = settings.name.trim().replace(/\s+/g, ' ');
+  if (!entered) {
+    const guessed = detectCandidateName(resume);
+    return guessed ? [guessed] : [];
+  }
+  const parts = entered.split(' ');
+  const surname = parts[parts.length - 1];
+  return parts.length > 1 && surname.length >= 3 ? [entered, surname] : [entered];
+}
+
+export interface RedactionResult {
+  text: string;
+  counts: Record<PiiKind, number>;
+}
+
+// Masks the selected kinds of personal details in `text`. Emails and links
+// go first, so the digits and names inside them aren't matched again.
+export function redactPii(text: string, settings: RedactionSettings, names: string[] = []): RedactionResult {
+  const counts: Record<PiiKind, number> = { name: 0, email: 0, phone: 0, address: 0, link: 0 };
+  const enabled = new Set(settings.kinds);
+  let result = text;
+
+  const mask = (kind: PiiKind, pattern: RegExp, accept: (match: string) => boolean = () => true) => {
+    if (!enabled.has(kind)) return;
+    result = result.replace(pattern, match => {
+      if (!accept(match)) return match;
+      counts[kind]++;
+      return PII_PLACEHOLDERS[kind];
+    });
+  };
+
+  mask('email', EMAIL);
+  mask('link', LINK);
+  mask('phone', PHONE, isPhoneNumber);
+  mask('address', STREET);
+  mask('address', STATE_ZIP);
+  // Longest first, so the full name wins over the surname inside it.
+  [...names].sort((a, b) => b.length - a.length).forEach(name => {
+    mask('name', new RegExp(`(?<![\\w])${escapeRegExp(name)}(?![\\w])`, 'g'));
+  });
+
+  return { text: result, counts };
+}
+
+// A redactor bound to one resume, for everything sent in a session.
+export function createRedactor(settings: RedactionSettings, resume: string): (text: string) => string {
+  const names = getCandidateNames(settings, resume);
+  return (text) => redactPii(text, settings, names).text;
+}
+
+const PLACEHOLDER_PATTERN = new RegExp(`(${Object.values(PII_PLACEHOLDERS).map(escapeRegExp).join('|')})`);
+
+// Splits redacted text into plain runs and placeholders, for highlighting.
+export function splitPlaceholders(text: string): { text: string; isPlaceholder: boolean }[] {
+  return text
+    .split(PLACEHOLDER_PATTERN)
+    .filter(Boolean)
+    .map(part => ({ text: part, isPlaceholder: PLACEHOLDER_PATTERN.test(part) }));
+}
@@ -0,0 +1,73 @@
+import { AnswerVersion, RefinementKind, Turn } from '../types';
+
+export const REFINEMENT_KINDS: RefinementKind[] = ['shorter', 'technical', 'metric', 'different_project', 'simpler'];
+
+export const REFINEMENT_LABELS: Record<RefinementKind, string> = {
+  shorter: 'Shorter',
+  technical: 'More Technical',
+  metric: 'Add a Metric',
+  different_project: 'Different Project',
+  simpler: 'Simpler Wording',
+};
+
+const REFINEMENT_INSTRUCTIONS: Record<RefinementKind, string> = {
+  shorter: 'Make it about half as long. Keep the strongest point and the result; drop everything else.',
+  technical: 'Make it more technical: name the specific technologies, design decisions and trade-offs involved.',
+  metric: 'Add a concrete, quantified result (a number, percentage or time saved) taken from the resume. Do not invent figures that are not in the context.',
+  different_project: 'Answer the same question using a different project or role from the resume than the one used here.',
+  simpler: 'Use plainer wording and shorter sentences, with no jargon, so it is easy to say out loud.',
+};
+
+// The original answer as a version, for turns not yet refined.
+function originalVersion(turn: Turn): AnswerVersion {
+  return { id: `${turn.id}-v1`, text: turn.aiSuggested, usedSegments: turn.usedSegments || [], createdAt: turn.timestamp };
+}
+
+export function getVersions(turn: Turn): AnswerVersion[] {
+  return turn.versions?.length ? turn.versions : [originalVersion(turn)];
+}
+
+export function getChosenVersion(turn: Turn): AnswerVersion {
+  const versions = getVersions(turn);
+  return versions.find(v => v.id === turn.chosenVersionId) ?? versions[versions.length - 1];
+}
+
+// Prompt for rewriting the chosen version of a turn's answer. It runs against
+// the usual system instruction, so the citation block is asked for as usual.
+export function buildRefinementRequest(turn: Turn, kind: RefinementKind): string {
+  return `The interviewer asked: "${turn.interviewer}"
+
+You suggested this answer:
+"""
+${getChosenVersion(turn).text}
+"""
+
+Rewrite the answer. ${REFINEMENT_INSTRUCTIONS[kind]}
+Reply with only the rewritten answer, in the same first-person voice.`;
+}
+
+export function chooseVersion(turn: Turn, versionId: string): Turn {
+  const version = getVersions(turn).find(v => v.id === versionId);
+  if (!version) return turn;
+  return { ...turn, versions: getVersions(turn), chosenVersionId: version.id, aiSuggested: version.text, usedSegments: version.usedSegments };
+}
+
+// Adds a refined version of the chosen answer and makes it the chosen one.
+export function addRefinedVersion(turn: Turn, kind: RefinementKind, text: string, usedSegments: string[], createdAt: number): Turn {
+  const versions = getVersions(turn);
+  const version: AnswerVersion = {
+    id: `${turn.id}-v${versions.length + 1}`,
+    text,
+    usedSegments,
+    refinement: kind,
+    basedOn: getChosenVersion(turn).id,
+    createdAt,
+  };
+  return chooseVersion({ ...turn, versions: [...versions, version] }, version.id);
+}
+
+// "v2 · Shorter", or "v1 · Original".
+export function versionLabel(turn: Turn, version: AnswerVersion): string {
+  const index = getVersions(turn).findIndex(v => v.id === version.id) + 1;
+  return `v${index} · ${version.refinement ? REFINEMENT_LABELS[version.refinement] : 'Original'}`;
+}
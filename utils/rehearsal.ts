@@ -0,0 +1,126 @@
+import { InterviewSession, RehearsalAttempt, RehearsalScores } from '../types';
+
+// Comfortable conversational pace and answer length for a spoken interview answer.
+const IDEAL_WPM: [number, number] = [120, 165];
+const IDEAL_SECONDS: [number, number] = [45, 150];
+
+const FILLER_PATTERNS: [string, RegExp][] = [
+  ['um', /\b(um+|umm+)\b/g],
+  ['uh', /\b(uh+|er+m?)\b/g],
+  ['you know', /\byou know\b/g],
+  ['i mean', /\bi mean\b/g],
+  ['sort of', /\bsort of\b/g],
+  ['kind of', /\bkind of\b/g],
+  ['basically', /\bbasically\b/g],
+  ['actually', /\bactually\b/g],
+  ['literally', /\bliterally\b/g],
+];
+
+// Phrases that typically open each STAR component when spoken.
+const STAR_CUES: Record<'situation' | 'task' | 'action' | 'result', RegExp> = {
+  situation: /\b(when i was|at my (last|previous)|we were|our team|the (situation|context|problem) was|back (when|in)|at the time)\b/,
+  task: /\b(my (goal|job|role|task|responsibility)|i (needed|had) to|i was (asked|tasked|responsible)|we had to|the goal was)\b/,
+  action: /\b(i (built|designed|decided|led|wrote|started|proposed|implemented|created|set up|worked with|reached out|introduced|changed)|so i|first i|then i)\b/,
+  result: /\b(as a result|in the end|which (led|meant|cut|saved|reduced|increased)|(reduced|increased|improved|saved|cut|grew) .*\d|\d+ ?(%|percent)|we (shipped|launched|delivered)|the outcome)\b/,
+};
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'that', 'with', 'this', 'from', 'have', 'was', 'were', 'are', 'but', 'not', 'you', 'your',
+  'our', 'they', 'their', 'then', 'than', 'into', 'about', 'what', 'when', 'which', 'will', 'would', 'could',
+  'should', 'been', 'also', 'just', 'more', 'some', 'very', 'there', 'here', 'how', 'why', 'who', 'its', 'it\'s',
+  'can', 'did', 'had', 'has', 'all', 'any', 'one', 'out', 'use', 'used', 'using', 'like', 'them', 'these', 'those',
+]);
+
+const words = (text: string) => text.toLowerCase().match(/[a-z0-9'%+#.]+/g)?.map(w => w.replace(/\.+$/, '')).filter(Boolean) ?? [];
+
+const keyTerms = (text: string) =>
+  new Set(words(text.replace(/\*\*|`|^[-*]\s+/gm, ' ')).filter(w => w.length > 2 && !STOP_WORDS.has(w)));
+
+// 100 inside [low, high], falling off linearly to 0 at half/double the range.
+function bandScore(value: number, [low, high]: [number, number]): number {
+  if (value >= low && value <= high) return 100;
+  if (value < low) return Math.max(0, Math.round(((value - low / 2) / (low / 2)) * 100));
+  return Math.max(0, Math.round(((high * 2 - value) / high) * 100));
+}
+
+function termOverlap(reference: string, spoken: Set<string>): number | null {
+  const terms = keyTerms(reference);
+  if (terms.size === 0) return null;
+  let hits = 0;
+  terms.forEach(t => { if (spoken.has(t)) hits++; });
+  return hits / terms.size;
+}
+
+export function countFillers(transcript: string): Record<string, number> {
+  const lower = transcript.toLowerCase();
+  const counts: Record<string, number> = {};
+  for (const [label, pattern] of FILLER_PATTERNS) {
+    const n = lower.match(pattern)?.length ?? 0;
+    if (n > 0) counts[label] = n;
+  }
+  return counts;
+}
+
+export interface RehearsalInput {
+  transcript: string;
+  durationMs: number;
+  // The suggested answer being rehearsed; empty for practice turns.
+  suggestion: string;
+  // Text of the resume chunks the suggestion cited.
+  evidence: string[];
+}
+
+// Scores a spoken answer 0-100 on each dimension. Dimensions that have
+// nothing to compare against (no suggestion, no cited evidence) are null and
+// left out of the overall score.
+export function scoreRehearsal({ transcript, durationMs, suggestion, evidence }: RehearsalInput): Omit<RehearsalAttempt, 'id' | 'timestamp'> {
+  const spokenWords = words(transcript);
+  const wordCount = spokenWords.length;
+  const minutes = Math.max(durationMs, 1) / 60000;
+  const wordsPerMinute = Math.round(wordCount / minutes);
+  const fillers = countFillers(transcript);
+  const fillerCount = Object.values(fillers).reduce((a, b) => a + b, 0);
+
+  const lower = transcript.toLowerCase();
+  const starHits = Object.values(STAR_CUES).filter(cue => cue.test(lower)).length;
+  const spoken = new Set(spokenWords);
+  const coverage = suggestion.trim() ? termOverlap(suggestion, spoken) : null;
+  const evidenceHits = evidence
+    .map(text => termOverlap(text, spoken))
+    .filter((o): o is number => o !== null);
+
+  const scores: RehearsalScores = {
+    structure: Math.round((starHits / 4) * 100),
+    // Hitting about half the suggestion's key terms is a faithful paraphrase.
+    coverage: coverage === null ? null : Math.min(100, Math.round(coverage * 200)),
+    // A cited chunk counts as used once a third of its key terms are spoken.
+    evidence: evidenceHits.length === 0 ? null : Math.round((evidenceHits.filter(o => o >= 1 / 3).length / evidenceHits.length) * 100),
+    // Two fillers a minute is unnoticeable; twelve or more reads as nervous.
+    fillers: Math.max(0, Math.min(100, Math.round(100 - ((fillerCount / minutes - 2) / 10) * 100))),
+    pace: wordCount === 0 ? 0 : bandScore(wordsPerMinute, IDEAL_WPM),
+    length: bandScore(durationMs / 1000, IDEAL_SECONDS),
+  };
+  const applicable = Object.values(scores).filter((s): s is number => s !== null);
+  const overall = wordCount === 0 ? 0 : Math.round(applicable.reduce((a, b) => a + b, 0) / applicable.length);
+
+  return { transcript, durationMs, wordCount, wordsPerMinute, fillers, scores, overall };
+}
+
+export interface RehearsalPoint {
+  timestamp: number;
+  overall: number;
+  sessionName: string;
+  question: string;
+}
+
+// Every rehearsal attempt across the given sessions, oldest first, for charting.
+export function collectRehearsalHistory(sessions: InterviewSession[]): RehearsalPoint[] {
+  return sessions
+    .flatMap(session => session.turns.flatMap(turn => (turn.rehearsals || []).map(attempt => ({
+      timestamp: attempt.timestamp,
+      overall: attempt.overall,
+      sessionName: session.name,
+      question: turn.interviewer,
+    }))))
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
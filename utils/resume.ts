@@ -0,0 +1,80 @@
+import { ContextChunk } from '../types';
+
+const MAX_CHUNK_CHARS = 280;
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Short, stable fingerprint of the resume text so a saved session records
+// which version of the resume its answers were generated against.
+export function getResumeVersion(resume: string): string {
+  return fnv1a(resume).toString(16).padStart(8, '0');
+}
+
+const normalizeChunkText = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Long paragraphs are cut at sentence ends so a citation points at a claim,
+// not a whole block. Returns [start, end) offsets relative to `line`.
+function splitLongLine(line: string): [number, number][] {
+  if (line.length <= MAX_CHUNK_CHARS) return [[0, line.length]];
+  const ranges: [number, number][] = [];
+  const sentence = /[^.!?]+(?:[.!?]+|$)\s*/g;
+  let start = 0;
+  let end = 0;
+  let match: RegExpExecArray | null;
+  while ((match = sentence.exec(line)) && match[0]) {
+    const next = match.index + match[0].length;
+    if (next - start > MAX_CHUNK_CHARS && end > start) {
+      ranges.push([start, end]);
+      start = end;
+    }
+    end = next;
+  }
+  if (end > start) ranges.push([start, end]);
+  return ranges;
+}
+
+// Splits text into addressable chunks (one per line, long lines by
+// sentence). IDs derive from the chunk text, so unrelated edits elsewhere in
+// the document don't change them; `prefix` tells documents apart.
+export function chunkText(source: string, prefix: string): ContextChunk[] {
+  const chunks: ContextChunk[] = [];
+  const seen = new Map<string, number>();
+  let offset = 0;
+
+  for (const line of source.split('\n')) {
+    for (const [from, to] of splitLongLine(line)) {
+      const raw = line.slice(from, to);
+      const text = raw.trim();
+      if (text.length > 1) {
+        const leading = raw.length - raw.trimStart().length;
+        const baseId = `${prefix}_${(fnv1a(normalizeChunkText(text)) & 0xffffff).toString(16).padStart(6, '0')}`;
+        const count = (seen.get(baseId) || 0) + 1;
+        seen.set(baseId, count);
+        const start = offset + from + leading;
+        chunks.push({
+          id: count === 1 ? baseId : `${baseId}-${count}`,
+          text,
+          start,
+          end: start + text.length,
+        });
+      }
+    }
+    offset += line.length + 1;
+  }
+  return chunks;
+}
+
+export function chunkResume(resume: string): ContextChunk[] {
+  return chunkText(resume, 'c');
+}
+
+export function formatChunksForPrompt(chunks: ContextChunk[]): string {
+  return chunks.map(c => `[${c.id}] ${c.text}`).join('\n');
+}
@@ -0,0 +1,251 @@
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { ExperienceEntry, ProjectEntry, ResumeSections } from '../types';
+
+export const RESUME_FILE_ACCEPT = '.txt,.md,.pdf,.docx';
+
+type SectionKey = 'summary' | 'experience' | 'projects' | 'skills' | 'education';
+
+const SECTION_HEADINGS: Record<SectionKey, RegExp> = {
+  summary: /^(professional\s+)?(summary|profile|about(\s+me)?|objective|overview)$/,
+  experience: /^((work|professional|relevant)\s+)?(experience|employment(\s+history)?|work\s+history|career\s+history)$/,
+  projects: /^((personal|selected|key|side)\s+)?projects?$/,
+  skills: /^((technical|core|key)\s+)?(skills|competencies|technologies|tech\s+stack|tools)(\s*(&|and)\s*\w+)?$/,
+  education: /^(education|academic\s+background|qualifications)(\s*(&|and)\s*\w+)?$/,
+};
+
+const BULLET_PATTERN = /^\s*(?:[-*•▪●◦‣∙–—]|\d+[.)])\s+/;
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const DATE_RANGE_PATTERN = new RegExp(
+  `((?:${MONTH}\\s+)?\\d{4}|\\d{1,2}/\\d{4})\\s*(?:-|–|—|to)\\s*((?:${MONTH}\\s+)?\\d{4}|\\d{1,2}/\\d{4}|present|current|now)`,
+  'i'
+);
+const ROLE_KEYWORDS = /\b(engineer|developer|manager|lead|director|intern|analyst|scientist|designer|architect|consultant|head|vp|president|officer|specialist|administrator|programmer|founder|staff|principal)\b/i;
+
+export function emptyResumeSections(): ResumeSections {
+  return { header: '', summary: '', experience: [], projects: [], skills: [], education: [], other: '' };
+}
+
+async function extractPdfText(data: ArrayBuffer): Promise<string> {
+  const pdfjs = await import('pdfjs-dist');
+  // Served with the app, so parsing a resume loads nothing from a third party.
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  }
+  const task = pdfjs.getDocument({ data });
+  const doc = await task.promise;
+  const pages: string[] = [];
+  for (let n = 1; n <= doc.numPages; n++) {
+    const page = await doc.getPage(n);
+    const content = await page.getTextContent();
+    let text = '';
+    let lastY: number | null = null;
+    for (const item of content.items) {
+      if (!('str' in item)) continue;
+      // A change in baseline means a new visual line even without an EOL flag.
+      const y = item.transform[5];
+      if (lastY !== null && Math.abs(y - lastY) > 2 && !text.endsWith('\n')) {
+        text += '\n';
+      }
+      text += item.str;
+      if (item.hasEOL) text += '\n';
+      lastY = y;
+    }
+    pages.push(text);
+  }
+  await task.destroy();
+  return pages.join('\n\n');
+}
+
+async function extractDocxText(data: ArrayBuffer): Promise<string> {
+  const mammoth = await import('mammoth');
+  const result = await mammoth.extractRawText({ arrayBuffer: data });
+  return result.value;
+}
+
+export async function extractResumeText(file: File): Promise<string> {
+  const name = file.name.toLowerCase();
+  let raw: string;
+  if (name.endsWith('.pdf') || file.type === 'application/pdf') {
+    raw = await extractPdfText(await file.arrayBuffer());
+  } else if (name.endsWith('.docx') || file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
+    raw = await extractDocxText(await file.arrayBuffer());
+  } else if (name.endsWith('.txt') || name.endsWith('.md') || file.type.startsWith('text/')) {
+    raw = await file.text();
+  } else {
+    throw new Error('Unsupported resume format. Upload a PDF, DOCX, TXT or MD file.');
+  }
+  const text = cleanResumeText(raw);
+  if (!text) {
+    throw new Error('No text found in that file. Scanned PDFs need to be converted to text first.');
+  }
+  return text;
+}
+
+// Normalizes whitespace and bullet glyphs left behind by PDF/DOCX extraction.
+export function cleanResumeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/ /g, ' ')
+    .replace(/[ \t]+/g, ' ')
+    .split('\n')
+    .map(line => line.trim().replace(BULLET_PATTERN, '- '))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function matchHeading(line: string): SectionKey | 'other' | null {
+  const normalized = line.replace(/^#+\s*/, '').replace(/[:\s]+$/, '').toLowerCase();
+  if (!normalized || normalized.length > 40) return null;
+  for (const key of Object.keys(SECTION_HEADINGS) as SectionKey[]) {
+    if (SECTION_HEADINGS[key].test(normalized)) return key;
+  }
+  // Unknown all-caps or markdown headings (e.g. CERTIFICATIONS) start an "other" block.
+  const bare = line.replace(/^#+\s*/, '').replace(/:$/, '');
+  if (line.startsWith('#') || (bare === bare.toUpperCase() && /[A-Z]{3,}/.test(bare) && bare.split(' ').length <= 4)) {
+    return 'other';
+  }
+  return null;
+}
+
+const isBullet = (line: string) => BULLET_PATTERN.test(line);
+const stripBullet = (line: string) => line.replace(BULLET_PATTERN, '').trim();
+
+function splitHeaderParts(line: string): string[] {
+  return line
+    .split(/\s+(?:\||—|–|-|@|at)\s+|\s*\|\s*|,\s+/)
+    .map(p => p.trim())
+    .filter(Boolean);
+}
+
+function buildExperienceEntry(headerLines: string[], bullets: string[]): ExperienceEntry {
+  let dates = '';
+  const parts: string[] = [];
+  for (const line of headerLines) {
+    const match = line.match(DATE_RANGE_PATTERN);
+    let rest = line;
+    if (match && !dates) {
+      dates = match[0];
+      rest = line.replace(match[0], '').replace(/[()]/g, '');
+    }
+    parts.push(...splitHeaderParts(rest));
+  }
+
+  const roleIndex = parts.findIndex(p => ROLE_KEYWORDS.test(p));
+  const role = roleIndex >= 0 ? parts[roleIndex] : (parts[1] || '');
+  const company = parts.find((p, i) => i !== roleIndex && p !== role) || '';
+  return { company, role, dates, bullets };
+}
+
+function parseExperience(lines: string[]): ExperienceEntry[] {
+  const entries: ExperienceEntry[] = [];
+  let headerLines: string[] = [];
+  let bullets: string[] = [];
+
+  const flush = () => {
+    if (headerLines.length > 0 || bullets.length > 0) {
+      entries.push(buildExperienceEntry(headerLines, bullets));
+    }
+    headerLines = [];
+    bullets = [];
+  };
+
+  for (const line of lines) {
+    if (!line) continue;
+    if (isBullet(line)) {
+      bullets.push(stripBullet(line));
+    } else {
+      // Plain text after bullets starts the next position.
+      if (bullets.length > 0) flush();
+      headerLines.push(line);
+    }
+  }
+  flush();
+  return entries;
+}
+
+function parseProjects(lines: string[]): ProjectEntry[] {
+  const projects: ProjectEntry[] = [];
+  for (const line of lines) {
+    if (!line) continue;
+    if (isBullet(line) && projects.length > 0) {
+      projects[projects.length - 1].bullets.push(stripBullet(line));
+    } else if (!isBullet(line) && (projects.length === 0 || projects[projects.length - 1].bullets.length > 0)) {
+      projects.push({ name: line, bullets: [] });
+    } else if (projects.length > 0) {
+      projects[projects.length - 1].bullets.push(stripBullet(line));
+    } else {
+      projects.push({ name: stripBullet(line), bullets: [] });
+    }
+  }
+  return projects;
+}
+
+function parseSkills(lines: string[]): string[] {
+  return lines
+    .flatMap(line => {
+      const content = stripBullet(line);
+      // "Languages: Go, Python" contributes just the items, not the category label.
+      const colon = content.indexOf(':');
+      const items = (colon >= 0 ? content.slice(colon + 1) : content).split(/\s*[,;|•]\s*/);
+      return items.map(s => s.trim()).filter(Boolean);
+    })
+    .filter((skill, i, all) => all.indexOf(skill) === i);
+}
+
+export function parseResumeSections(text: string): ResumeSections {
+  const sections = emptyResumeSections();
+  const buckets: Record<SectionKey | 'header', string[]> = {
+    header: [], summary: [], experience: [], projects: [], skills: [], education: [],
+  };
+  const other: string[] = [];
+  let current: SectionKey | 'header' | 'other' = 'header';
+
+  for (const rawLine of cleanResumeText(text).split('\n')) {
+    const line = rawLine.trim();
+    const heading = matchHeading(line);
+    if (heading) {
+      current = heading;
+      if (heading === 'other') other.push('', line.replace(/^#+\s*/, ''));
+      continue;
+    }
+    if (current === 'other') other.push(line);
+    else buckets[current].push(line);
+  }
+
+  sections.header = buckets.header.join('\n').trim();
+  sections.summary = buckets.summary.map(stripBullet).join(' ').replace(/\s+/g, ' ').trim();
+  sections.experience = parseExperience(buckets.experience);
+  sections.projects = parseProjects(buckets.projects);
+  sections.skills = parseSkills(buckets.skills.filter(Boolean));
+  sections.education = buckets.education.filter(Boolean).map(stripBullet);
+  sections.other = other.join('\n').trim();
+  return sections;
+}
+
+// Flattens reviewed sections into the plain-text context sent to the model.
+export function formatResumeSections(sections: ResumeSections): string {
+  const blocks: string[] = [];
+  if (sections.header.trim()) blocks.push(sections.header.trim());
+  if (sections.summary.trim()) blocks.push(`SUMMARY\n${sections.summary.trim()}`);
+
+  if (sections.experience.length > 0) {
+    const entries = sections.experience.map(e => {
+      const title = [e.role, e.company].filter(Boolean).join(' — ');
+      const heading = e.dates ? `${title} (${e.dates})` : title;
+      return [heading, ...e.bullets.filter(Boolean).map(b => `- ${b}`)].join('\n');
+    });
+    blocks.push(`EXPERIENCE\n${entries.join('\n\n')}`);
+  }
+
+  if (sections.projects.length > 0) {
+    const entries = sections.projects.map(p => [p.name, ...p.bullets.filter(Boolean).map(b => `- ${b}`)].join('\n'));
+    blocks.push(`PROJECTS\n${entries.join('\n\n')}`);
+  }
+
+  if (sections.skills.length > 0) blocks.push(`SKILLS\n${sections.skills.join(', ')}`);
+  if (sections.education.length > 0) blocks.push(`EDUCATION\n${sections.education.map(e => `- ${e}`).join('\n')}`);
+  if (sections.other.trim()) blocks.push(sections.other.trim());
+
+  return blocks.join('\n\n');
+}
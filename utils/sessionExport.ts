@@ -0,0 +1,501 @@
+import { AnswerVersion, AudioSource, InterviewSession, JobContext, MockDebrief, QuestionType, RefinementKind, RehearsalAttempt, RehearsalScores, SessionModelConfig, TranscriptEntry, Turn, TurnMetrics } from '../types';
+import { generateSessionId } from './sessionStore';
+import { chunkResume } from './resume';
+import { resolveCitations } from './citations';
+import { QUESTION_TYPES, QUESTION_TYPE_LABELS } from './promptTemplates';
+import { chunkJobDescription, isJobChunkId } from './jobContext';
+import { speakerLabel } from './transcript';
+import { REFINEMENT_KINDS, getChosenVersion, versionLabel } from './refinement';
+
+const EXPORT_FORMAT = 'interview-copilot-session';
+const EXPORT_VERSION = 1;
+
+export type ExportFormat = 'json' | 'markdown' | 'html';
+
+export class SessionImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionImportError';
+  }
+}
+
+export interface SessionImportResult {
+  session: InterviewSession;
+  // Human-readable notes about records that were repaired or dropped.
+  warnings: string[];
+}
+
+interface CitedEvidence {
+  resume: string[];
+  requirements: string[];
+}
+
+// Citations for a turn as display text. Chunk IDs are resolved against the
+// session's resume and job description snapshots; anything unresolvable is
+// listed under resume evidence as cited.
+function getCitedEvidence(session: InterviewSession, turn: Turn): CitedEvidence {
+  const refs = turn.usedSegments || [];
+  if (!session.resumeText && !session.jobContext) return { resume: refs, requirements: [] };
+  const chunks = [
+    ...chunkResume(session.resumeText || ''),
+    ...(session.jobContext ? chunkJobDescription(session.jobContext) : []),
+  ];
+  const { chunks: cited, invalid } = resolveCitations(refs, chunks);
+  return {
+    resume: [...cited.filter(c => !isJobChunkId(c.id)).map(c => c.text), ...invalid.map(ref => `(unresolved) ${ref}`)],
+    requirements: cited.filter(c => isJobChunkId(c.id)).map(c => c.text),
+  };
+}
+
+// "v2 · Shorter of 3" for refined answers, null otherwise.
+function formatChosenVersion(turn: Turn): string | null {
+  if (!turn.versions || turn.versions.length < 2) return null;
+  return `${versionLabel(turn, getChosenVersion(turn))} of ${turn.versions.length}`;
+}
+
+function formatRehearsals(turn: Turn): string | null {
+  const attempts = turn.rehearsals || [];
+  if (attempts.length === 0) return null;
+  const best = Math.max(...attempts.map(a => a.overall));
+  return `Rehearsed ${attempts.length} time${attempts.length === 1 ? '' : 's'}, latest ${attempts[attempts.length - 1].overall}/100, best ${best}/100`;
+}
+
+const typeSuffix = (turn: Turn) => (turn.questionType ? ` · ${QUESTION_TYPE_LABELS[turn.questionType]}` : '');
+
+const formatTime = (ts: number | null) => (ts === null ? 'In progress' : new Date(ts).toLocaleString());
+const SOURCE_LABELS: Record<AudioSource, string> = {
+  microphone: 'Microphone',
+  system: 'Meet/Tab capture',
+  dual: 'Meet/Tab capture + local mic transcript',
+};
+const sourceLabel = (source: AudioSource) => SOURCE_LABELS[source] || SOURCE_LABELS.microphone;
+
+export function exportSessionJson(session: InterviewSession): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, session }, null, 2);
+}
+
+export function exportSessionMarkdown(session: InterviewSession): string {
+  const lines: string[] = [
+    `# ${session.name}`,
+    '',
+    `- **Started:** ${formatTime(session.startedAt)}`,
+    `- **Ended:** ${formatTime(session.endedAt)}`,
+    `- **Audio source:** ${sourceLabel(session.audioSource)}`,
+    `- **Resume version:** \`${session.resumeVersion}\``,
+    `- **Questions:** ${session.turns.length}`,
+  ];
+  if (session.mode === 'mock') {
+    lines.push(`- **Mode:** Mock interview${session.debrief?.score != null ? ` (scored ${session.debrief.score}/10)` : ''}`);
+  }
+
+  session.turns.forEach((turn, i) => {
+    if (turn.role === 'practice') {
+      lines.push(
+        '',
+        `## Q${i + 1} · ${new Date(turn.timestamp).toLocaleTimeString()} · Practice${typeSuffix(turn)}`,
+        '',
+        '**Mock interviewer:**',
+        '',
+        ...turn.interviewer.split('\n').map(l => `> ${l}`),
+        '',
+        '**Your answer:**',
+        '',
+        turn.candidateAnswer || '',
+      );
+      const rehearsed = formatRehearsals(turn);
+      if (rehearsed) lines.push('', `_${rehearsed}_`);
+      return;
+    }
+    lines.push(
+      '',
+      `## Q${i + 1} · ${new Date(turn.timestamp).toLocaleTimeString()}${typeSuffix(turn)}`,
+      '',
+      '**Interviewer:**',
+      '',
+      ...turn.interviewer.split('\n').map(l => `> ${l}`),
+      '',
+      formatChosenVersion(turn) ? `**Suggested answer** (${formatChosenVersion(turn)}):` : '**Suggested answer:**',
+      '',
+      turn.aiSuggested,
+    );
+    const evidence = getCitedEvidence(session, turn);
+    if (evidence.resume.length > 0) {
+      lines.push('', '**Resume evidence:**', '', ...evidence.resume.map(s => `- "${s}"`));
+    }
+    if (evidence.requirements.length > 0) {
+      lines.push('', '**Requirements addressed:**', '', ...evidence.requirements.map(s => `- ${s}`));
+    }
+    if (turn.candidateAnswer) {
+      lines.push('', '**You said:**', '', turn.candidateAnswer);
+    }
+    const rehearsed = formatRehearsals(turn);
+    if (rehearsed) lines.push('', `_${rehearsed}_`);
+  });
+
+  if (session.debrief) {
+    lines.push('', '## Debrief', '', session.debrief.text);
+  }
+
+  if (session.transcript?.length) {
+    lines.push('', '## Transcript', '');
+    session.transcript.forEach(entry => {
+      lines.push(`- **${speakerLabel(entry.speaker)}** (${new Date(entry.timestamp).toLocaleTimeString()}): ${entry.text}`);
+    });
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export function exportSessionHtml(session: InterviewSession): string {
+  const turns = session.turns.map((turn, i) => {
+    if (turn.role === 'practice') {
+      return `
+  <section class="turn">
+    <h2>Q${i + 1} <span class="time">${escapeHtml(new Date(turn.timestamp).toLocaleTimeString())} · Practice${escapeHtml(typeSuffix(turn))}</span></h2>
+    <blockquote>${escapeHtml(turn.interviewer)}</blockquote>
+    <h3>Your answer</h3>
+    <div class="answer">${escapeHtml(turn.candidateAnswer || '')}</div>
+  </section>`;
+    }
+    const evidence = getCitedEvidence(session, turn);
+    const list = (items: string[]) => `<ul>${items.map(s => `<li>${escapeHtml(s)}</li>`).join('')}</ul>`;
+    return `
+  <section class="turn">
+    <h2>Q${i + 1} <span class="time">${escapeHtml(new Date(turn.timestamp).toLocaleTimeString())}${escapeHtml(typeSuffix(turn))}</span></h2>
+    <blockquote>${escapeHtml(turn.interviewer)}</blockquote>
+    ${formatChosenVersion(turn) ? `<h3>Suggested answer <span class="time">${escapeHtml(formatChosenVersion(turn)!)}</span></h3>\n    ` : ''}<div class="answer">${escapeHtml(turn.aiSuggested)}</div>
+    ${evidence.resume.length > 0 ? `<h3>Resume evidence</h3>\n    ${list(evidence.resume)}` : ''}
+    ${evidence.requirements.length > 0 ? `<h3>Requirements addressed</h3>\n    ${list(evidence.requirements)}` : ''}
+    ${turn.candidateAnswer ? `<h3>You said</h3>\n    <div class="answer">${escapeHtml(turn.candidateAnswer)}</div>` : ''}
+    ${formatRehearsals(turn) ? `<h3>Rehearsal</h3>\n    <p>${escapeHtml(formatRehearsals(turn)!)}</p>` : ''}
+  </section>`;
+  }).join('\n');
+  const debrief = session.debrief
+    ? `\n  <section class="turn">\n    <h2>Debrief${session.debrief.score !== null ? ` <span class="time">${session.debrief.score}/10</span>` : ''}</h2>\n    <div class="answer">${escapeHtml(session.debrief.text)}</div>\n  </section>`
+    : '';
+  const transcript = session.transcript?.length
+    ? `\n  <section class="turn">\n    <h2>Transcript</h2>\n    ${session.transcript.map(entry => `<p><strong>${escapeHtml(speakerLabel(entry.speaker))}</strong> <span class="time">${escapeHtml(new Date(entry.timestamp).toLocaleTimeString())}</span><br>${escapeHtml(entry.text)}</p>`).join('\n    ')}\n  </section>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(session.name)}</title>
+<style>
+  body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #0f172a; max-width: 800px; margin: 40px auto; padding: 0 24px; line-height: 1.5; }
+  header { border-bottom: 3px solid #6366f1; margin-bottom: 24px; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; font-size: 13px; }
+  dt { font-weight: 700; color: #475569; }
+  .turn { border: 1px solid #e2e8f0; border-radius: 12px; padding: 16px 20px; margin-bottom: 16px; page-break-inside: avoid; }
+  .turn h2 { font-size: 16px; margin: 0 0 8px; }
+  .time { font-size: 12px; font-weight: 400; color: #64748b; }
+  blockquote { margin: 0 0 12px; padding-left: 12px; border-left: 3px solid #cbd5e1; color: #475569; font-style: italic; white-space: pre-wrap; }
+  .answer { white-space: pre-wrap; }
+  h3 { font-size: 12px; text-transform: uppercase; letter-spacing: 0.08em; color: #6366f1; margin: 12px 0 4px; }
+  ul { margin: 0; padding-left: 20px; font-size: 13px; color: #334155; }
+  @media print { body { margin: 0; } .turn { border-color: #94a3b8; } }
+</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(session.name)}</h1>
+  <dl>
+    <dt>Started</dt><dd>${escapeHtml(formatTime(session.startedAt))}</dd>
+    <dt>Ended</dt><dd>${escapeHtml(formatTime(session.endedAt))}</dd>
+    <dt>Audio source</dt><dd>${escapeHtml(sourceLabel(session.audioSource))}</dd>
+    <dt>Resume version</dt><dd>${escapeHtml(session.resumeVersion)}</dd>
+    <dt>Questions</dt><dd>${session.turns.length}</dd>
+  </dl>
+</header>
+${turns}${debrief}${transcript}
+</body>
+</html>
+`;
+}
+
+export function exportSession(session: InterviewSession, format: ExportFormat): { content: string; mimeType: string; extension: string } {
+  switch (format) {
+    case 'json':
+      return { content: exportSessionJson(session), mimeType: 'application/json', extension: 'json' };
+    case 'markdown':
+      return { content: exportSessionMarkdown(session), mimeType: 'text/markdown', extension: 'md' };
+    case 'html':
+      return { content: exportSessionHtml(session), mimeType: 'text/html', extension: 'html' };
+  }
+}
+
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function getExportFilename(session: InterviewSession, extension: string): string {
+  const slug = session.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'session';
+  return `${slug}.${extension}`;
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isTranscriptEntry = (raw: unknown): raw is TranscriptEntry =>
+  isRecord(raw)
+  && (raw.speaker === 'interviewer' || raw.speaker === 'candidate')
+  && typeof raw.text === 'string'
+  && typeof raw.timestamp === 'number';
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isOptionalMs = (value: unknown) => value === null || isCount(value);
+
+const isTurnMetrics = (raw: unknown): raw is TurnMetrics =>
+  isRecord(raw)
+  && isOptionalMs(raw.firstTokenMs)
+  && isOptionalMs(raw.generationMs)
+  && isCount(raw.answerWords)
+  && isCount(raw.interruptions)
+  && isCount(raw.citations)
+  && isCount(raw.resolvedCitations);
+
+// Rehearsal scores run from 0 to 100; coverage and evidence are null when
+// there was nothing to score them against.
+const isScore = (value: unknown): value is number => isCount(value) && value <= 100;
+const isOptionalScore = (value: unknown) => value === null || isScore(value);
+
+const isRehearsalScores = (raw: unknown): raw is RehearsalScores =>
+  isRecord(raw)
+  && isScore(raw.structure)
+  && isOptionalScore(raw.coverage)
+  && isOptionalScore(raw.evidence)
+  && isScore(raw.fillers)
+  && isScore(raw.pace)
+  && isScore(raw.length);
+
+const isRehearsalAttempt = (raw: unknown): raw is RehearsalAttempt =>
+  isRecord(raw)
+  && typeof raw.id === 'string'
+  && typeof raw.timestamp === 'number'
+  && typeof raw.transcript === 'string'
+  && isScore(raw.overall)
+  && isRehearsalScores(raw.scores);
+
+const isAnswerVersion = (raw: unknown): raw is AnswerVersion =>
+  isRecord(raw)
+  && typeof raw.id === 'string'
+  && typeof raw.text === 'string'
+  && Array.isArray(raw.usedSegments)
+  && raw.usedSegments.every(s => typeof s === 'string')
+  && typeof raw.createdAt === 'number'
+  && (raw.refinement === undefined || REFINEMENT_KINDS.includes(raw.refinement as RefinementKind))
+  && (raw.basedOn === undefined || typeof raw.basedOn === 'string');
+
+// Validates a single Turn, returning null when it is beyond repair (no
+// question and no answer text). Fixable problems are reported in warnings.
+function repairTurn(raw: unknown, index: number, fallbackTimestamp: number, warnings: string[]): Turn | null {
+  const label = `Turn ${index + 1}`;
+  if (!isRecord(raw)) {
+    warnings.push(`${label}: not an object, dropped.`);
+    return null;
+  }
+
+  const interviewer = typeof raw.interviewer === 'string' ? raw.interviewer : '';
+  const aiSuggested = typeof raw.aiSuggested === 'string' ? raw.aiSuggested : '';
+  const isPractice = raw.role === 'practice';
+  if (!interviewer && !aiSuggested) {
+    warnings.push(`${label}: missing both question and answer, dropped.`);
+    return null;
+  }
+  if (typeof raw.interviewer !== 'string') warnings.push(`${label}: missing interviewer text.`);
+  if (typeof raw.aiSuggested !== 'string' && !isPractice) warnings.push(`${label}: missing suggested answer.`);
+
+  let id = raw.id;
+  if (typeof id !== 'string' || !id) {
+    id = `${fallbackTimestamp}-${index}`;
+    warnings.push(`${label}: missing id, generated one.`);
+  }
+
+  let timestamp = raw.timestamp;
+  if (typeof timestamp !== 'number' || !Number.isFinite(timestamp)) {
+    timestamp = fallbackTimestamp;
+    warnings.push(`${label}: invalid timestamp, used session start.`);
+  }
+
+  const turn: Turn = { id: id as string, interviewer, aiSuggested, timestamp: timestamp as number };
+  if (QUESTION_TYPES.includes(raw.questionType as QuestionType)) {
+    turn.questionType = raw.questionType as QuestionType;
+  }
+  if (isPractice) {
+    turn.role = 'practice';
+    turn.candidateAnswer = typeof raw.candidateAnswer === 'string' ? raw.candidateAnswer : '';
+  } else if (typeof raw.candidateAnswer === 'string' && raw.candidateAnswer) {
+    turn.candidateAnswer = raw.candidateAnswer;
+  }
+  if (raw.isManualTrigger !== undefined) {
+    turn.isManualTrigger = raw.isManualTrigger === true;
+  }
+  if (raw.isOffline === true) {
+    turn.isOffline = true;
+  }
+  if (raw.usedSegments !== undefined) {
+    if (Array.isArray(raw.usedSegments)) {
+      turn.usedSegments = raw.usedSegments.filter((s): s is string => typeof s === 'string');
+      if (turn.usedSegments.length !== raw.usedSegments.length) {
+        warnings.push(`${label}: dropped non-text resume citations.`);
+      }
+    } else {
+      turn.usedSegments = [];
+      warnings.push(`${label}: usedSegments was not a list, cleared.`);
+    }
+  }
+  if (Array.isArray(raw.rehearsals)) {
+    const rehearsals = raw.rehearsals.filter(isRehearsalAttempt);
+    if (rehearsals.length !== raw.rehearsals.length) {
+      warnings.push(`${label}: dropped malformed rehearsal attempts.`);
+    }
+    if (rehearsals.length > 0) turn.rehearsals = rehearsals;
+  }
+  if (raw.metrics !== undefined) {
+    if (isTurnMetrics(raw.metrics)) turn.metrics = raw.metrics;
+    else warnings.push(`${label}: dropped malformed metrics.`);
+  }
+  if (Array.isArray(raw.versions) && !isPractice) {
+    const versions = raw.versions.filter(isAnswerVersion);
+    if (versions.length !== raw.versions.length) {
+      warnings.push(`${label}: dropped malformed answer versions.`);
+    }
+    // The chosen version is the answer on the turn, so its text and citations
+    // win over the turn's own; without one, fall back to the version matching
+    // the answer, and drop the history if none does.
+    const chosen = versions.find(v => v.id === raw.chosenVersionId) ?? versions.find(v => v.text === aiSuggested);
+    if (chosen) {
+      if (chosen.text !== aiSuggested) warnings.push(`${label}: answer did not match the chosen version, used the version's text.`);
+      turn.versions = versions;
+      turn.chosenVersionId = chosen.id;
+      turn.aiSuggested = chosen.text;
+      turn.usedSegments = [...chosen.usedSegments];
+    } else if (versions.length > 0) {
+      warnings.push(`${label}: answer versions did not match the answer, dropped.`);
+    }
+  }
+  return turn;
+}
+
+export function parseSessionImport(text: string): SessionImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new SessionImportError('File is not valid JSON.');
+  }
+
+  // Accept both the wrapped export format and a bare session object.
+  let raw: unknown = parsed;
+  if (isRecord(parsed) && parsed.format !== undefined) {
+    if (parsed.format !== EXPORT_FORMAT) {
+      throw new SessionImportError(`Unrecognized export format "${String(parsed.format)}".`);
+    }
+    if (typeof parsed.version !== 'number' || parsed.version > EXPORT_VERSION) {
+      throw new SessionImportError('This export was made by a newer version of the app.');
+    }
+    raw = parsed.session;
+  }
+
+  const warnings: string[] = [];
+  const session = repairSession(raw, warnings);
+  return { session, warnings };
+}
+
+function repairModelConfig(raw: unknown): SessionModelConfig | undefined {
+  if (!isRecord(raw) || typeof raw.model !== 'string' || typeof raw.voiceName !== 'string') return undefined;
+  const config: SessionModelConfig = { model: raw.model, voiceName: raw.voiceName };
+  if (raw.responseModality === 'audio' || raw.responseModality === 'text') config.responseModality = raw.responseModality;
+  if (typeof raw.temperature === 'number' && Number.isFinite(raw.temperature)) config.temperature = raw.temperature;
+  return config;
+}
+
+function repairDebrief(raw: unknown): MockDebrief | undefined {
+  if (!isRecord(raw) || typeof raw.text !== 'string') return undefined;
+  const score = typeof raw.score === 'number' && Number.isFinite(raw.score) ? raw.score : null;
+  return { score, text: raw.text };
+}
+
+export function repairJobContext(raw: unknown): JobContext | undefined {
+  if (!isRecord(raw)) return undefined;
+  return {
+    jobDescription: typeof raw.jobDescription === 'string' ? raw.jobDescription : '',
+    companyNotes: typeof raw.companyNotes === 'string' ? raw.companyNotes : '',
+    interviewers: typeof raw.interviewers === 'string' ? raw.interviewers : '',
+  };
+}
+
+// Validates an untrusted session record, repairing what it can and noting
+// each repair in `warnings`. Throws when there is no usable session at all.
+export function repairSession(raw: unknown, warnings: string[]): InterviewSession {
+  if (!isRecord(raw)) {
+    throw new SessionImportError('No session record found in file.');
+  }
+  if (!Array.isArray(raw.turns)) {
+    throw new SessionImportError('Session has no turns list.');
+  }
+
+  const startedAt = typeof raw.startedAt === 'number' && Number.isFinite(raw.startedAt) ? raw.startedAt : Date.now();
+  if (startedAt !== raw.startedAt) warnings.push('Session start time was invalid, used the current time.');
+
+  const turns = raw.turns
+    .map((t, i) => repairTurn(t, i, startedAt, warnings))
+    .filter((t): t is Turn => t !== null);
+
+  const endedAt = typeof raw.endedAt === 'number' && Number.isFinite(raw.endedAt)
+    ? raw.endedAt
+    : (turns.length > 0 ? turns[turns.length - 1].timestamp : startedAt);
+
+  const session: InterviewSession = {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : generateSessionId(startedAt),
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name : `Imported ${new Date(startedAt).toLocaleDateString()}`,
+    startedAt,
+    endedAt,
+    audioSource: raw.audioSource === 'system' || raw.audioSource === 'dual' ? raw.audioSource : 'microphone',
+    resumeVersion: typeof raw.resumeVersion === 'string' ? raw.resumeVersion : '',
+    turns,
+  };
+  if (typeof raw.profileId === 'string' && raw.profileId) {
+    session.profileId = raw.profileId;
+  }
+  if (typeof raw.resumeText === 'string') {
+    session.resumeText = raw.resumeText;
+  }
+  const jobContext = repairJobContext(raw.jobContext);
+  if (jobContext) {
+    session.jobContext = jobContext;
+  }
+  if (raw.mode === 'mock' || raw.mode === 'copilot') {
+    session.mode = raw.mode;
+  }
+  const debrief = repairDebrief(raw.debrief);
+  if (debrief) {
+    session.debrief = debrief;
+  }
+  const modelConfig = repairModelConfig(raw.modelConfig);
+  if (modelConfig) {
+    session.modelConfig = modelConfig;
+  }
+  if (Array.isArray(raw.transcript)) {
+    const transcript = raw.transcript.filter(isTranscriptEntry);
+    if (transcript.length !== raw.transcript.length) {
+      warnings.push('Dropped malformed transcript entries.');
+    }
+    if (transcript.length > 0) session.transcript = transcript;
+  }
+  return session;
+}
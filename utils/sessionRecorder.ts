@@ -0,0 +1,132 @@
+import { AudioRange, SessionRecording } from '../types';
+import { applyOutputDevice } from './audioDevices';
+
+// Opus in WebM where supported (Chrome, Firefox), otherwise whatever the
+// browser records by default.
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+// MediaRecorder hands over data this often, so a long session isn't held in
+// one internal buffer until stop.
+const TIMESLICE_MS = 1000;
+
+export function isSessionRecordingSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined';
+}
+
+export interface SessionRecorder {
+  // Connect model audio here (as well as to the speakers) to record it.
+  destination: AudioNode;
+  // Milliseconds since recording started, for aligning turns.
+  elapsedMs: () => number;
+  stop: () => Promise<{ audio: Blob; recording: SessionRecording } | null>;
+  cancel: () => void;
+}
+
+// Records `input` mixed with anything connected to `destination`, on the
+// given context. Nothing is routed to the speakers. The context must run at
+// the default rate: Firefox throws for a stream source at any other.
+export function startSessionRecorder(context: AudioContext, input: MediaStream): SessionRecorder {
+  const destination = context.createMediaStreamDestination();
+  const inputSource = context.createMediaStreamSource(input);
+  inputSource.connect(destination);
+
+  const mimeType = PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(destination.stream, mimeType ? { mimeType } : undefined);
+  const parts: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) parts.push(e.data);
+  };
+
+  const startedAt = performance.now();
+  recorder.start(TIMESLICE_MS);
+
+  const release = () => {
+    inputSource.disconnect();
+    destination.disconnect();
+  };
+
+  return {
+    destination,
+    elapsedMs: () => performance.now() - startedAt,
+    stop: () => new Promise(resolve => {
+      if (recorder.state === 'inactive') {
+        resolve(null);
+        return;
+      }
+      const durationMs = Math.round(performance.now() - startedAt);
+      recorder.onstop = () => {
+        release();
+        if (parts.length === 0) {
+          resolve(null);
+          return;
+        }
+        const audio = new Blob(parts, { type: recorder.mimeType || mimeType || 'audio/webm' });
+        resolve({ audio, recording: { mimeType: audio.type, durationMs, sizeBytes: audio.size } });
+      };
+      recorder.stop();
+    }),
+    cancel: () => {
+      recorder.ondataavailable = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      release();
+    },
+  };
+}
+
+export interface RecordingPlayer {
+  play: (sessionId: string, range: AudioRange, outputId: string) => Promise<void>;
+  stop: () => void;
+}
+
+// Plays slices of saved session recordings. Recordings are decoded in full
+// rather than seeked through a media element, because MediaRecorder output
+// has no seek index and lands on the wrong spot. The last decoded session is
+// cached so stepping through its turns is instant.
+export function createRecordingPlayer(load: (sessionId: string) => Promise<Blob | undefined>): RecordingPlayer {
+  let context: AudioContext | null = null;
+  let cached: { sessionId: string; buffer: AudioBuffer } | null = null;
+  let current: AudioBufferSourceNode | null = null;
+  // Bumped by every play() and stop(), so a play still loading its recording
+  // knows it was superseded.
+  let generation = 0;
+
+  // Stopping fires `onended`, which settles the pending play() call.
+  const stop = () => {
+    generation++;
+    try { current?.stop(); } catch (e) {}
+    current = null;
+  };
+
+  return {
+    stop,
+    play: async (sessionId, range, outputId) => {
+      stop();
+      const playGeneration = generation;
+      if (!context) {
+        context = new (window.AudioContext || (window as any).webkitAudioContext)();
+      }
+      await applyOutputDevice(context, outputId);
+      if (cached?.sessionId !== sessionId) {
+        const audio = await load(sessionId);
+        if (!audio) throw new Error('The recording for this session is missing.');
+        cached = { sessionId, buffer: await context.decodeAudioData(await audio.arrayBuffer()) };
+      }
+      if (playGeneration !== generation) return;
+      const { buffer } = cached;
+      const offset = Math.max(0, range.startMs / 1000);
+      if (offset >= buffer.duration) throw new Error('This turn is past the end of the recording.');
+      const duration = Math.min(buffer.duration - offset, Math.max(0, range.endMs - range.startMs) / 1000);
+
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(context.destination);
+      current = source;
+      await new Promise<void>(resolve => {
+        source.onended = () => {
+          if (current === source) current = null;
+          resolve();
+        };
+        source.start(0, offset, duration);
+      });
+    },
+  };
+}
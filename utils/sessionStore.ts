@@ -0,0 +1,194 @@
+import { InterviewSession } from '../types';
+import { EncryptedPayload, decryptBytes, decryptJson, encryptBytes, encryptJson, isEncryptedPayload, isVaultEnabled } from './vault';
+
+const DB_NAME = 'interview-copilot';
+const DB_VERSION = 2;
+const SESSION_STORE = 'sessions';
+// Audio blobs keyed by session ID, kept out of the session records.
+const RECORDING_STORE = 'recordings';
+
+// With local encryption on, a session record keeps only the fields IndexedDB
+// needs in the clear (its key and index) and a recording is ciphertext.
+interface EncryptedSessionRecord {
+  id: string;
+  startedAt: number;
+  encrypted: EncryptedPayload;
+}
+
+interface EncryptedRecording {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+  type: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+        if (!db.objectStoreNames.contains(RECORDING_STORE)) {
+          db.createObjectStore(RECORDING_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function runRequest<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>, storeName = SESSION_STORE): Promise<T> {
+  return openDb().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+}
+
+export function generateSessionId(startedAt: number = Date.now()): string {
+  return `${startedAt}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createSession(init: Omit<InterviewSession, 'id' | 'name' | 'endedAt' | 'turns'>): InterviewSession {
+  const started = new Date(init.startedAt);
+  return {
+    ...init,
+    id: generateSessionId(init.startedAt),
+    name: `Interview ${started.toLocaleDateString()} ${started.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+    endedAt: null,
+    turns: [],
+  };
+}
+
+// Session and recording writes run one at a time, so a save can't interleave
+// with rewriteSessionStore and land in the form it is replacing.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function queueWrite<T>(write: () => Promise<T>): Promise<T> {
+  const result = writeQueue.then(write);
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+// Encryption happens before the transaction opens: IndexedDB commits a
+// transaction as soon as it is left waiting on anything else.
+async function putSession(session: InterviewSession, encrypt: boolean): Promise<void> {
+  const record: InterviewSession | EncryptedSessionRecord = encrypt
+    ? { id: session.id, startedAt: session.startedAt, encrypted: await encryptJson(session) }
+    : session;
+  await runRequest('readwrite', store => store.put(record));
+}
+
+// Records saved before encryption was turned on are still plain.
+async function readSession(record: InterviewSession | EncryptedSessionRecord): Promise<InterviewSession> {
+  return 'encrypted' in record && isEncryptedPayload(record.encrypted) ? decryptJson<InterviewSession>(record.encrypted) : record as InterviewSession;
+}
+
+export async function saveSession(session: InterviewSession): Promise<void> {
+  await queueWrite(() => putSession(session, isVaultEnabled()));
+}
+
+export async function getSession(id: string): Promise<InterviewSession | undefined> {
+  const record = await runRequest('readonly', store => store.get(id) as IDBRequest<InterviewSession | EncryptedSessionRecord | undefined>);
+  return record ? readSession(record) : undefined;
+}
+
+// Newest first, which is the order the session browser shows them in.
+export async function listSessions(): Promise<InterviewSession[]> {
+  const records = await runRequest('readonly', store => store.getAll() as IDBRequest<(InterviewSession | EncryptedSessionRecord)[]>);
+  const sessions = await Promise.all(records.map(readSession));
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function renameSession(id: string, name: string): Promise<InterviewSession | undefined> {
+  const session = await getSession(id);
+  if (!session) return undefined;
+  const renamed = { ...session, name };
+  await saveSession(renamed);
+  return renamed;
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(id));
+  await runRequest('readwrite', store => store.delete(id), RECORDING_STORE);
+}
+
+async function putRecording(sessionId: string, audio: Blob, encrypt: boolean): Promise<void> {
+  let record: Blob | EncryptedRecording = audio;
+  if (encrypt) {
+    const { iv, data } = await encryptBytes(await audio.arrayBuffer());
+    record = { iv, data, type: audio.type };
+  }
+  await runRequest('readwrite', store => store.put(record, sessionId), RECORDING_STORE);
+}
+
+export async function saveRecording(sessionId: string, audio: Blob): Promise<void> {
+  await queueWrite(() => putRecording(sessionId, audio, isVaultEnabled()));
+}
+
+export async function getRecording(sessionId: string): Promise<Blob | undefined> {
+  const record = await runRequest('readonly', store => store.get(sessionId) as IDBRequest<Blob | EncryptedRecording | undefined>, RECORDING_STORE);
+  if (!record) return undefined;
+  if (record instanceof Blob) return record;
+  return new Blob([await decryptBytes(record.iv, record.data)], { type: record.type });
+}
+
+// Rewrites every session and recording encrypted or in the clear, one at a
+// time so only one recording is in memory. `switchVault` turns the vault on
+// before the rewrite or off after it; saves wait until both are done, so they
+// always see the vault in the state that matches the stored records.
+export async function rewriteSessionStore(encrypt: boolean, switchVault: () => Promise<void>): Promise<void> {
+  await queueWrite(async () => {
+    if (encrypt) await switchVault();
+    await rewriteRecords(encrypt);
+    if (!encrypt) await switchVault();
+  });
+}
+
+async function rewriteRecords(encrypt: boolean): Promise<void> {
+  const sessionIds = await runRequest('readonly', store => store.getAllKeys());
+  for (const id of sessionIds) {
+    const session = await getSession(id as string);
+    if (session) await putSession(session, encrypt);
+  }
+  const recordingIds = await runRequest('readonly', store => store.getAllKeys(), RECORDING_STORE);
+  for (const id of recordingIds) {
+    const audio = await getRecording(id as string);
+    if (audio) await putRecording(id as string, audio, encrypt);
+  }
+}
+
+// Deletes the whole database: every session and recording.
+export async function deleteAllSessionData(): Promise<void> {
+  if (dbPromise) {
+    (await dbPromise.catch(() => null))?.close();
+    dbPromise = null;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Close the app in other tabs and try again.'));
+  });
+}
+
+export function matchesSessionQuery(session: InterviewSession, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  if (session.name.toLowerCase().includes(q)) return true;
+  return session.turns.some(t =>
+    t.interviewer.toLowerCase().includes(q) || t.aiSuggested.toLowerCase().includes(q)
+  );
+}
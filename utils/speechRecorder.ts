@@ -0,0 +1,131 @@
+// Thin wrapper over the browser's Web Speech recognizer, used to transcribe
+// the candidate's own voice (rehearsals, and the mic channel of dual capture)
+// without sending it to the live model. The recognition itself may not be
+// local: Chrome sends the audio to Google's speech service.
+
+// Not part of the DOM typings TypeScript ships, so only what is used here.
+interface SpeechRecognitionResultLike {
+  isFinal: boolean;
+  0: { transcript: string };
+}
+
+interface SpeechRecognitionEventLike {
+  resultIndex: number;
+  results: ArrayLike<SpeechRecognitionResultLike>;
+}
+
+interface SpeechRecognitionLike {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((e: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((e: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionCtor = new () => SpeechRecognitionLike;
+
+const getRecognitionCtor = (): SpeechRecognitionCtor | undefined =>
+  (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+
+export function isSpeechRecognitionSupported(): boolean {
+  return getRecognitionCtor() !== undefined;
+}
+
+export interface SpeechRecording {
+  transcript: string;
+  durationMs: number;
+}
+
+export interface SpeechRecorder {
+  stop: () => Promise<SpeechRecording>;
+  cancel: () => void;
+}
+
+export interface SpeechRecorderCallbacks {
+  // Everything heard so far, including the still-changing interim words.
+  onTranscript?: (text: string) => void;
+  // Each finalized phrase as the recognizer commits it.
+  onFinal?: (segment: string) => void;
+  onError: (message: string) => void;
+}
+
+export function startSpeechRecorder({ onTranscript, onFinal, onError }: SpeechRecorderCallbacks): SpeechRecorder {
+  const Ctor = getRecognitionCtor();
+  if (!Ctor) {
+    throw new Error('Speech recognition is not available in this browser. Try Chrome or Edge.');
+  }
+
+  const recognition = new Ctor();
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  recognition.lang = navigator.language || 'en-US';
+
+  const startedAt = Date.now();
+  let finalText = '';
+  let interimText = '';
+  let isStopping = false;
+  let hasEnded = false;
+  let resolveStop: ((r: SpeechRecording) => void) | null = null;
+
+  const current = () => `${finalText} ${interimText}`.replace(/\s+/g, ' ').trim();
+
+  recognition.onresult = (e) => {
+    interimText = '';
+    for (let i = e.resultIndex; i < e.results.length; i++) {
+      const result = e.results[i];
+      if (result.isFinal) {
+        finalText += ` ${result[0].transcript}`;
+        if (result[0].transcript.trim()) onFinal?.(result[0].transcript.trim());
+      } else {
+        interimText += ` ${result[0].transcript}`;
+      }
+    }
+    onTranscript?.(current());
+  };
+
+  recognition.onerror = (e) => {
+    // Silence ends a recognition run; that's handled by restarting in onend.
+    if (e.error === 'no-speech' || e.error === 'aborted') return;
+    isStopping = true;
+    onError(e.error === 'not-allowed' ? 'Microphone permission denied.' : `Speech recognition failed (${e.error}).`);
+  };
+
+  recognition.onend = () => {
+    // Browsers end continuous recognition after a pause; keep going until stopped.
+    // A failed restart ends the recording rather than retrying in a loop.
+    if (!isStopping) {
+      try {
+        recognition.start();
+        return;
+      } catch (e: any) {
+        isStopping = true;
+        onError(`Speech recognition stopped (${e.message || 'it could not restart'}).`);
+      }
+    }
+    hasEnded = true;
+    resolveStop?.({ transcript: current(), durationMs: Date.now() - startedAt });
+  };
+
+  recognition.start();
+
+  return {
+    stop: () => new Promise(resolve => {
+      const durationMs = Date.now() - startedAt;
+      if (hasEnded) {
+        resolve({ transcript: current(), durationMs });
+        return;
+      }
+      resolveStop = (r) => resolve({ ...r, durationMs });
+      isStopping = true;
+      recognition.stop();
+    }),
+    cancel: () => {
+      isStopping = true;
+      recognition.abort();
+    },
+  };
+}
@@ -0,0 +1,26 @@
+import { Speaker, TranscriptEntry, Turn } from '../types';
+
+// Consecutive phrases from the same speaker within this window are merged
+// into one entry, so the transcript reads as utterances rather than fragments.
+const MERGE_WINDOW_MS = 4000;
+
+export function appendTranscript(entries: TranscriptEntry[], speaker: Speaker, text: string, timestamp: number): TranscriptEntry[] {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (!clean) return entries;
+  const last = entries[entries.length - 1];
+  if (last && last.speaker === speaker && timestamp - last.timestamp <= MERGE_WINDOW_MS) {
+    return [...entries.slice(0, -1), { ...last, text: `${last.text} ${clean}`, timestamp }];
+  }
+  return [...entries, { speaker, text: clean, timestamp }];
+}
+
+// The candidate's words after a suggestion belong to the latest turn, until
+// the next question completes a new one.
+export function attachCandidateReply(turns: Turn[], text: string): Turn[] {
+  if (turns.length === 0) return turns;
+  const last = turns[turns.length - 1];
+  const candidateAnswer = last.candidateAnswer ? `${last.candidateAnswer} ${text}` : text;
+  return [...turns.slice(0, -1), { ...last, candidateAnswer }];
+}
+
+export const speakerLabel = (speaker: Speaker) => (speaker === 'interviewer' ? 'Interviewer' : 'Candidate');
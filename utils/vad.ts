@@ -0,0 +1,115 @@
+import { PcmChunk } from '../services/liveProvider';
+
+export type ListenMode = 'manual' | 'auto';
+
+export interface ListenSettings {
+  mode: ListenMode;
+  // Chunks louder than this (dBFS RMS) count as speech.
+  thresholdDb: number;
+  // Quiet time after speech before the utterance is considered over.
+  silenceMs: number;
+  // Audio kept from just before speech was detected, so the first words aren't clipped.
+  preRollMs: number;
+}
+
+export const MIN_LEVEL_DB = -60;
+// Speech must stay above the threshold this long, over at least this many
+// consecutive chunks, to start. A click or key tap lands in a single capture
+// chunk (2048 samples at 16 kHz is 128 ms), so it can't open the mic.
+const MIN_SPEECH_MS = 250;
+const MIN_SPEECH_CHUNKS = 2;
+// Speech ends below threshold minus this margin, so trailing syllables
+// hovering around the threshold don't flap the gate.
+const HYSTERESIS_DB = 4;
+
+const STORAGE_KEY = 'interview_listen_settings';
+
+export const DEFAULT_LISTEN_SETTINGS: ListenSettings = {
+  mode: 'manual',
+  thresholdDb: -42,
+  silenceMs: 1200,
+  preRollMs: 400,
+};
+
+export function loadListenSettings(): ListenSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return { ...DEFAULT_LISTEN_SETTINGS, ...(stored && typeof stored === 'object' ? stored : {}) };
+  } catch {
+    return DEFAULT_LISTEN_SETTINGS;
+  }
+}
+
+export function saveListenSettings(settings: ListenSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function toDecibels(rms: number): number {
+  return rms > 0 ? Math.max(MIN_LEVEL_DB, 20 * Math.log10(rms)) : MIN_LEVEL_DB;
+}
+
+export type VadEvent = 'speech_start' | 'speech_end' | null;
+
+export interface VadResult {
+  event: VadEvent;
+  // Chunks to forward: the pre-roll plus the current chunk when speech
+  // starts, the current chunk while speaking, nothing while idle.
+  send: PcmChunk[];
+}
+
+export interface VoiceActivityDetector {
+  push: (chunk: PcmChunk, levelDb: number, chunkMs: number, settings: ListenSettings) => VadResult;
+  isSpeaking: () => boolean;
+  reset: () => void;
+}
+
+// Energy-based detector with pre-roll and a silence hangover. The trailing
+// silence is forwarded too, which gives the server's own end-of-turn
+// detection the pause it needs to start answering.
+export function createVoiceActivityDetector(): VoiceActivityDetector {
+  let speaking = false;
+  let voicedMs = 0;
+  let voicedChunks = 0;
+  let silentMs = 0;
+  const preRoll: PcmChunk[] = [];
+
+  return {
+    push: (chunk, levelDb, chunkMs, settings) => {
+      if (!speaking) {
+        preRoll.push(chunk);
+        // The chunks that confirm speech are kept on top of the pre-roll, so
+        // the pre-roll still reaches back before the first of them.
+        const confirmChunks = Math.max(MIN_SPEECH_CHUNKS, Math.ceil(MIN_SPEECH_MS / chunkMs));
+        const maxPreRoll = Math.ceil(settings.preRollMs / chunkMs) + confirmChunks;
+        while (preRoll.length > maxPreRoll) preRoll.shift();
+
+        const isVoiced = levelDb >= settings.thresholdDb;
+        voicedMs = isVoiced ? voicedMs + chunkMs : 0;
+        voicedChunks = isVoiced ? voicedChunks + 1 : 0;
+        if (voicedMs < MIN_SPEECH_MS || voicedChunks < MIN_SPEECH_CHUNKS) {
+          return { event: null, send: [] };
+        }
+        speaking = true;
+        silentMs = 0;
+        return { event: 'speech_start', send: preRoll.splice(0) };
+      }
+
+      silentMs = levelDb < settings.thresholdDb - HYSTERESIS_DB ? silentMs + chunkMs : 0;
+      if (silentMs >= settings.silenceMs) {
+        speaking = false;
+        voicedMs = 0;
+        voicedChunks = 0;
+        return { event: 'speech_end', send: [chunk] };
+      }
+      return { event: null, send: [chunk] };
+    },
+    isSpeaking: () => speaking,
+    reset: () => {
+      speaking = false;
+      voicedMs = 0;
+      voicedChunks = 0;
+      silentMs = 0;
+      preRoll.length = 0;
+    },
+  };
+}
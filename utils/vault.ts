@@ -0,0 +1,223 @@
+// Passphrase encryption for personal data kept in the browser. When the vault
+// is on, profiles (with their resumes) in localStorage and session records and
+// recordings in IndexedDB are stored as AES-GCM ciphertext, under a key derived
+// from the passphrase with PBKDF2. The key lives only in memory: reloading the
+// page locks the vault again.
+
+const VAULT_KEY = 'interview_vault';
+// localStorage entries holding personal data.
+const SECURE_KEYS = ['interview_profiles'];
+const PBKDF2_ITERATIONS = 310000;
+const CHECK_TEXT = 'interview-copilot-vault';
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+export interface EncryptedPayload {
+  iv: string;
+  data: string;
+}
+
+interface VaultMeta {
+  version: 1;
+  salt: string;
+  iterations: number;
+  // CHECK_TEXT encrypted under the key, to tell a wrong passphrase apart.
+  check: EncryptedPayload;
+}
+
+let key: CryptoKey | null = null;
+// Decrypted SECURE_KEYS entries while unlocked.
+const cache = new Map<string, string>();
+// Encrypted writes per entry, chained so a slow older write can't land last.
+const pendingWrites = new Map<string, Promise<void>>();
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+function loadMeta(): VaultMeta | null {
+  try {
+    const meta = JSON.parse(localStorage.getItem(VAULT_KEY) || 'null');
+    return meta && typeof meta.salt === 'string' && meta.check ? meta : null;
+  } catch {
+    return null;
+  }
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+function requireKey(): CryptoKey {
+  if (!key) throw new VaultError('Local data is locked. Unlock it with your passphrase first.');
+  return key;
+}
+
+export async function encryptBytes(data: BufferSource, withKey: CryptoKey = requireKey()): Promise<{ iv: Uint8Array; data: ArrayBuffer }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, withKey, data) };
+}
+
+export async function decryptBytes(iv: Uint8Array, data: BufferSource, withKey: CryptoKey = requireKey()): Promise<ArrayBuffer> {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv }, withKey, data);
+}
+
+async function encryptText(text: string, withKey?: CryptoKey): Promise<EncryptedPayload> {
+  const encrypted = await encryptBytes(new TextEncoder().encode(text), withKey);
+  return { iv: toBase64(encrypted.iv), data: toBase64(new Uint8Array(encrypted.data)) };
+}
+
+async function decryptText(payload: EncryptedPayload, withKey?: CryptoKey): Promise<string> {
+  return new TextDecoder().decode(await decryptBytes(fromBase64(payload.iv), fromBase64(payload.data), withKey));
+}
+
+export async function encryptJson(value: unknown): Promise<EncryptedPayload> {
+  return encryptText(JSON.stringify(value));
+}
+
+export async function decryptJson<T>(payload: EncryptedPayload): Promise<T> {
+  return JSON.parse(await decryptText(payload)) as T;
+}
+
+export const isEncryptedPayload = (value: unknown): value is EncryptedPayload =>
+  typeof value === 'object' && value !== null
+  && typeof (value as EncryptedPayload).iv === 'string'
+  && typeof (value as EncryptedPayload).data === 'string';
+
+export function isVaultEnabled(): boolean {
+  return loadMeta() !== null;
+}
+
+export function isVaultUnlocked(): boolean {
+  return key !== null;
+}
+
+// Whether stored data is readable now: encryption is off, or it is unlocked.
+export function isVaultOpen(): boolean {
+  return !isVaultEnabled() || isVaultUnlocked();
+}
+
+export async function unlockVault(passphrase: string): Promise<void> {
+  const meta = loadMeta();
+  if (!meta) return;
+  const candidate = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+  try {
+    if (await decryptText(meta.check, candidate) !== CHECK_TEXT) throw new Error();
+  } catch {
+    throw new VaultError('Wrong passphrase.');
+  }
+  const entries = new Map<string, string>();
+  for (const name of SECURE_KEYS) {
+    const stored = localStorage.getItem(name);
+    if (stored === null) continue;
+    let parsed: unknown = null;
+    try {
+      parsed = JSON.parse(stored);
+    } catch {
+      // Not JSON, so not ciphertext either.
+    }
+    // Entries written before encryption was turned on are still plain text.
+    entries.set(name, isEncryptedPayload(parsed) ? await decryptText(parsed, candidate) : stored);
+  }
+  key = candidate;
+  cache.clear();
+  entries.forEach((value, name) => cache.set(name, value));
+}
+
+// Turns encryption on and encrypts the localStorage entries; session records
+// are rewritten separately (see rewriteSessionStore).
+export async function enableVault(passphrase: string): Promise<void> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new VaultError(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  }
+  if (isVaultEnabled()) throw new VaultError('Encryption is already on.');
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const newKey = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const meta: VaultMeta = { version: 1, salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, check: await encryptText(CHECK_TEXT, newKey) };
+  const plain = new Map<string, string>();
+  const encrypted = new Map<string, EncryptedPayload>();
+  for (const name of SECURE_KEYS) {
+    const stored = localStorage.getItem(name);
+    if (stored === null) continue;
+    plain.set(name, stored);
+    encrypted.set(name, await encryptText(stored, newKey));
+  }
+  encrypted.forEach((payload, name) => localStorage.setItem(name, JSON.stringify(payload)));
+  localStorage.setItem(VAULT_KEY, JSON.stringify(meta));
+  key = newKey;
+  cache.clear();
+  plain.forEach((value, name) => cache.set(name, value));
+}
+
+// Turns encryption off, writing the localStorage entries back as plain text.
+// Session records must be decrypted first, while the key is still here.
+export async function disableVault(): Promise<void> {
+  requireKey();
+  await flushWrites();
+  cache.forEach((value, name) => localStorage.setItem(name, value));
+  localStorage.removeItem(VAULT_KEY);
+  key = null;
+  cache.clear();
+}
+
+// Forgets the key and the decrypted data. Callers reload the page so nothing
+// decrypted stays in memory.
+export async function lockVault(): Promise<void> {
+  await flushWrites();
+  key = null;
+  cache.clear();
+}
+
+async function flushWrites(): Promise<void> {
+  await Promise.all([...pendingWrites.values()]);
+}
+
+const isSecureKey = (name: string) => SECURE_KEYS.includes(name) && isVaultEnabled();
+
+export function readSecureItem(name: string): string | null {
+  if (!isSecureKey(name)) return localStorage.getItem(name);
+  requireKey();
+  return cache.get(name) ?? null;
+}
+
+export function writeSecureItem(name: string, value: string): void {
+  if (!isSecureKey(name)) {
+    localStorage.setItem(name, value);
+    return;
+  }
+  const withKey = requireKey();
+  cache.set(name, value);
+  const previous = pendingWrites.get(name) ?? Promise.resolve();
+  const write = previous
+    .then(() => encryptText(value, withKey))
+    .then(payload => {
+      // Skipped if the vault was locked or turned off meanwhile.
+      if (key === withKey) localStorage.setItem(name, JSON.stringify(payload));
+    })
+    .catch(e => console.error(`Failed to encrypt ${name}`, e));
+  pendingWrites.set(name, write);
+}
+
+// Clears every localStorage entry of the app, the vault's own included.
+export function wipeLocalStorage(): void {
+  key = null;
+  cache.clear();
+  pendingWrites.clear();
+  localStorage.clear();
+}
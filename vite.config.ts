@@ -11,8 +11,10 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // The API key stays with the relay (npm run relay); only its URL is bundled.
+        'process.env.RELAY_URL': JSON.stringify(env.RELAY_URL || 'http://localhost:8787'),
+        'process.env.LIVE_PROVIDER': JSON.stringify(env.LIVE_PROVIDER || 'gemini'),
+        'process.env.MOCK_FIXTURE': JSON.stringify(env.MOCK_FIXTURE || '')
       },
       resolve: {
         alias: {